@@ -1,14 +1,23 @@
+import type { ToolDefinition } from "../llm/ollamaClient.js";
+
+export const DELEGATE_TOOL_NAME = "delegate_to_agent";
+
 export interface AgentProfile {
   id: string;
   name: string;
+  description?: string;
   systemPrompt: string;
   toolNames?: string[];
   maxSteps?: number;
+  model?: string;
+  triggers?: string[];
+  source?: string;
 }
 
 export const emailWriterAgent: AgentProfile = {
   id: "email_writer",
   name: "Email Writer",
+  description: "Drafts emails and email replies.",
   systemPrompt: [
     "You are an expert email writer.",
     "Draft clear, professional email replies.",
@@ -22,6 +31,7 @@ export const emailWriterAgent: AgentProfile = {
 export const researchAgent: AgentProfile = {
   id: "research",
   name: "Research",
+  description: "Researches a topic on the web and returns a sourced summary.",
   systemPrompt: [
     "You are a research specialist.",
     "Search the web, read sources carefully, and synthesize findings.",
@@ -34,8 +44,67 @@ export const researchAgent: AgentProfile = {
   maxSteps: 8
 };
 
-export const agentProfiles: AgentProfile[] = [emailWriterAgent, researchAgent];
+export const coderAgent: AgentProfile = {
+  id: "coder",
+  name: "Coder",
+  description: "Reads and edits workspace files with minimal patches (refactors, bug fixes).",
+  systemPrompt: [
+    "You are a coding specialist working on files in the user's workspace.",
+    "Always read a file with fs_read before changing it; never edit from memory.",
+    "Use fs_list to locate files when the path is unclear.",
+    "Change files only with fs_apply_patch, as minimal unified diffs (--- a/path, +++ b/path, @@ hunks) with enough context lines to apply cleanly.",
+    "Touch only the lines the task needs and keep the existing style, naming and formatting.",
+    "If a patch fails or is declined, re-read the file and send a corrected patch, or explain what blocked you.",
+    "Finish with a short summary of what changed and why."
+  ].join("\n"),
+  toolNames: ["fs_list", "fs_read", "fs_apply_patch"],
+  maxSteps: 10
+};
+
+export const agentProfiles: AgentProfile[] = [emailWriterAgent, researchAgent, coderAgent];
+
+export function getAgentById(id: string, profiles: AgentProfile[] = agentProfiles): AgentProfile | undefined {
+  return profiles.find((agent) => agent.id === id);
+}
+
+export function requireAgent(id: string, profiles: AgentProfile[] = agentProfiles): AgentProfile {
+  const agent = getAgentById(id, profiles);
+  if (!agent) {
+    const available = profiles.map((profile) => profile.id).join(", ");
+    throw new Error(`Unknown agent "${id}". Available agents: ${available}`);
+  }
+  return agent;
+}
+
+export function buildAgentContext(agentName: string, content: string): string {
+  return [
+    `Specialist agent (${agentName}) output:`,
+    content,
+    "Use this as draft guidance and respond to the user."
+  ].join("\n");
+}
 
-export function getAgentById(id: string): AgentProfile | undefined {
-  return agentProfiles.find((agent) => agent.id === id);
+export function buildDelegateTool(profiles: AgentProfile[]): ToolDefinition {
+  const catalog = profiles.map((agent) => `- ${agent.id}: ${agent.description ?? agent.name}`).join("\n");
+  return {
+    type: "function",
+    function: {
+      name: DELEGATE_TOOL_NAME,
+      description: [
+        "Hand a focused sub-task to a specialist agent and get back its output and the tools it used.",
+        "Give the task everything the agent needs; it does not see this conversation.",
+        "Agents:",
+        catalog
+      ].join("\n"),
+      parameters: {
+        type: "object",
+        properties: {
+          agent: { type: "string", enum: profiles.map((agent) => agent.id), description: "Specialist agent id" },
+          task: { type: "string", description: "Self-contained sub-task for the agent" }
+        },
+        required: ["agent", "task"],
+        additionalProperties: false
+      }
+    }
+  };
 }
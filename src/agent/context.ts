@@ -0,0 +1,230 @@
+import type { ChatClient, ChatMessage } from "../llm/ollamaClient.js";
+import { estimateTokens } from "../util/stats.js";
+
+export const SUMMARY_PREFIX = "Summary of earlier conversation:";
+
+export interface ContextBudget {
+  contextWindow: number;
+  threshold: number;
+  keepRecentTurns: number;
+  maxToolResultChars?: number;
+}
+
+export interface CompactionResult {
+  messages: ChatMessage[];
+  compacted: boolean;
+  tokensBefore: number;
+  tokensAfter: number;
+  removedMessages: number;
+  truncatedToolResults: number;
+  summary?: string;
+}
+
+const DEFAULT_MAX_TOOL_RESULT_CHARS = 2000;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  let total = 0;
+  for (const message of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content ?? "");
+    for (const call of message.tool_calls ?? []) {
+      total += estimateTokens(call.function.name) + estimateTokens(call.function.arguments);
+    }
+  }
+  return total;
+}
+
+export function needsCompaction(messages: ChatMessage[], budget: ContextBudget): boolean {
+  return estimateMessageTokens(messages) > budget.contextWindow * budget.threshold;
+}
+
+export async function compactMessages(
+  client: Pick<ChatClient, "chat">,
+  messages: ChatMessage[],
+  budget: ContextBudget,
+  signal?: AbortSignal
+): Promise<CompactionResult> {
+  const tokensBefore = estimateMessageTokens(messages);
+  const limit = budget.contextWindow * budget.threshold;
+  if (tokensBefore <= limit) {
+    return {
+      messages,
+      compacted: false,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+      removedMessages: 0,
+      truncatedToolResults: 0
+    };
+  }
+
+  const maxToolChars = budget.maxToolResultChars ?? DEFAULT_MAX_TOOL_RESULT_CHARS;
+  const { head, previousSummary, middle, tail } = splitForCompaction(messages, budget.keepRecentTurns);
+
+  if (middle.length === 0) {
+    // Nothing old enough to summarize; shrink tool output inside the recent turns instead.
+    const shrunk = truncateToolResults(tail, maxToolChars, 1);
+    const next = [...head, ...(previousSummary ? [previousSummary] : []), ...shrunk.messages];
+    return {
+      messages: next,
+      compacted: shrunk.count > 0,
+      tokensBefore,
+      tokensAfter: estimateMessageTokens(next),
+      removedMessages: 0,
+      truncatedToolResults: shrunk.count
+    };
+  }
+
+  const shrunkMiddle = truncateToolResults(middle, maxToolChars, 0);
+  const summary = await summarizeMessages(client, previousSummary?.content ?? null, shrunkMiddle.messages, signal);
+  const summaryMessage: ChatMessage = { role: "system", content: `${SUMMARY_PREFIX}\n${summary}` };
+  let next = [...head, summaryMessage, ...tail];
+  let truncatedToolResults = shrunkMiddle.count;
+
+  if (estimateMessageTokens(next) > limit) {
+    const shrunkTail = truncateToolResults(tail, maxToolChars, 1);
+    next = [...head, summaryMessage, ...shrunkTail.messages];
+    truncatedToolResults += shrunkTail.count;
+  }
+
+  return {
+    messages: next,
+    compacted: true,
+    tokensBefore,
+    tokensAfter: estimateMessageTokens(next),
+    removedMessages: middle.length,
+    truncatedToolResults,
+    summary
+  };
+}
+
+function splitForCompaction(
+  messages: ChatMessage[],
+  keepRecentTurns: number
+): { head: ChatMessage[]; previousSummary: ChatMessage | null; middle: ChatMessage[]; tail: ChatMessage[] } {
+  const head = messages.length > 0 && messages[0].role === "system" ? [messages[0]] : [];
+  let start = head.length;
+  let previousSummary: ChatMessage | null = null;
+  if (isSummaryMessage(messages[start])) {
+    previousSummary = messages[start];
+    start += 1;
+  }
+
+  const userIndexes: number[] = [];
+  for (let index = start; index < messages.length; index += 1) {
+    if (messages[index].role === "user") {
+      userIndexes.push(index);
+    }
+  }
+
+  const keep = Math.max(1, keepRecentTurns);
+  const tailStart = userIndexes.length > keep ? userIndexes[userIndexes.length - keep] : start;
+  return {
+    head,
+    previousSummary,
+    middle: messages.slice(start, tailStart),
+    tail: messages.slice(tailStart)
+  };
+}
+
+function isSummaryMessage(message: ChatMessage | undefined): boolean {
+  return Boolean(message && message.role === "system" && message.content?.startsWith(SUMMARY_PREFIX));
+}
+
+function truncateToolResults(
+  messages: ChatMessage[],
+  maxChars: number,
+  preserveLast: number
+): { messages: ChatMessage[]; count: number } {
+  let count = 0;
+  const cutoff = messages.length - preserveLast;
+  const output = messages.map((message, index) => {
+    if (index >= cutoff || message.role !== "tool" || !message.content || message.content.length <= maxChars) {
+      return message;
+    }
+    count += 1;
+    const omitted = message.content.length - maxChars;
+    return {
+      ...message,
+      content: `${message.content.slice(0, maxChars)}\n[... ${omitted} characters omitted to save context]`
+    };
+  });
+  return { messages: output, count };
+}
+
+async function summarizeMessages(
+  client: Pick<ChatClient, "chat">,
+  previousSummary: string | null,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  const transcript = formatTranscript(messages);
+  const previous = previousSummary ? previousSummary.replace(SUMMARY_PREFIX, "").trim() : "";
+  const prompt = [
+    "Summarize the conversation below so an assistant can continue it without the original messages.",
+    "Keep user goals, decisions, file paths, URLs, tool results that matter, and open questions.",
+    "Drop pleasantries and redundant detail. Use short bullet points.",
+    previous ? `Existing summary to extend:\n${previous}` : "",
+    "Conversation:",
+    transcript
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  try {
+    const response = await client.chat({
+      messages: [
+        { role: "system", content: "You compress chat transcripts into faithful, compact summaries." },
+        { role: "user", content: prompt }
+      ],
+      temperature: 0.2,
+      signal
+    });
+    const content = response.choices[0]?.message?.content?.trim();
+    if (content) {
+      return content;
+    }
+  } catch (err) {
+    if ((err as Error).name === "AbortError") {
+      throw err;
+    }
+  }
+
+  return fallbackSummary(previous, messages);
+}
+
+function formatTranscript(messages: ChatMessage[]): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (message.role === "tool") {
+      lines.push(`[tool result] ${message.content ?? ""}`);
+      continue;
+    }
+    if (message.content) {
+      lines.push(`[${message.role}] ${message.content}`);
+    }
+    for (const call of message.tool_calls ?? []) {
+      lines.push(`[tool call] ${call.function.name}(${call.function.arguments})`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function fallbackSummary(previous: string, messages: ChatMessage[]): string {
+  const lines = previous ? [previous] : [];
+  for (const message of messages) {
+    if (message.role === "user" && message.content) {
+      lines.push(`- User asked: ${clip(message.content, 200)}`);
+    } else if (message.role === "assistant" && message.content) {
+      lines.push(`- Assistant replied: ${clip(message.content, 200)}`);
+    } else if (message.role === "assistant" && message.tool_calls) {
+      const names = message.tool_calls.map((call) => call.function.name).join(", ");
+      lines.push(`- Assistant called tools: ${names}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function clip(text: string, maxChars: number): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  return normalized.length > maxChars ? `${normalized.slice(0, maxChars)}...` : normalized;
+}
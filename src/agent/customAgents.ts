@@ -0,0 +1,201 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { agentProfiles, type AgentProfile } from "./agents.js";
+
+export interface AgentLoadError {
+  file: string;
+  message: string;
+}
+
+export interface AgentCatalog {
+  agents: AgentProfile[];
+  errors: AgentLoadError[];
+}
+
+export interface AgentLoadOptions {
+  knownTools?: string[];
+  modelProfiles?: string[];
+}
+
+const AGENT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export function getAgentsDir(baseDir: string): string {
+  return path.join(baseDir, ".workshop", "agents");
+}
+
+export async function loadAgentCatalog(baseDir: string, options: AgentLoadOptions = {}): Promise<AgentCatalog> {
+  const agentsDir = getAgentsDir(baseDir);
+  let names: string[];
+  try {
+    names = (await fs.readdir(agentsDir)).sort();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { agents: [...agentProfiles], errors: [] };
+    }
+    return { agents: [...agentProfiles], errors: [{ file: agentsDir, message: (err as Error).message }] };
+  }
+
+  const agents = [...agentProfiles];
+  const errors: AgentLoadError[] = [];
+  for (const name of names) {
+    const extension = path.extname(name).toLowerCase();
+    if (extension !== ".md" && extension !== ".json") {
+      continue;
+    }
+    const filePath = path.join(agentsDir, name);
+    try {
+      const content = await fs.readFile(filePath, "utf8");
+      const agent = parseAgentFile(name, content, options);
+      const existing = agents.find((item) => item.id === agent.id);
+      if (existing) {
+        throw new Error(`id "${agent.id}" is already used by ${existing.source ?? "a built-in agent"}`);
+      }
+      agents.push({ ...agent, source: filePath });
+    } catch (err) {
+      errors.push({ file: filePath, message: (err as Error).message });
+    }
+  }
+  return { agents, errors };
+}
+
+export function parseAgentFile(fileName: string, content: string, options: AgentLoadOptions = {}): AgentProfile {
+  let data: Record<string, unknown>;
+  let body = "";
+  if (fileName.toLowerCase().endsWith(".json")) {
+    try {
+      data = JSON.parse(content);
+    } catch (err) {
+      throw new Error(`invalid JSON: ${(err as Error).message}`);
+    }
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error("expected a JSON object");
+    }
+  } else {
+    const parsed = parseFrontmatter(content);
+    data = parsed.data;
+    body = parsed.body;
+  }
+  return toAgentProfile(data, body, options);
+}
+
+function toAgentProfile(data: Record<string, unknown>, body: string, options: AgentLoadOptions): AgentProfile {
+  const id = readString(data, "id");
+  if (!id) {
+    throw new Error('missing required field "id"');
+  }
+  if (!AGENT_ID_PATTERN.test(id)) {
+    throw new Error(`id "${id}" must use lowercase letters, digits, "-" or "_"`);
+  }
+
+  const systemPrompt = (readString(data, "systemPrompt") ?? body).trim();
+  if (!systemPrompt) {
+    throw new Error("missing system prompt (the file body, or \"systemPrompt\" in JSON)");
+  }
+
+  const toolNames = readStringList(data, "toolNames") ?? readStringList(data, "tools") ?? [];
+  for (const tool of toolNames) {
+    if (options.knownTools && !options.knownTools.includes(tool)) {
+      throw new Error(`unknown tool "${tool}"`);
+    }
+  }
+
+  let maxSteps: number | undefined;
+  if (data.maxSteps !== undefined) {
+    maxSteps = Number(data.maxSteps);
+    if (!Number.isInteger(maxSteps) || maxSteps < 1) {
+      throw new Error('"maxSteps" must be a positive integer');
+    }
+  }
+
+  const model = readString(data, "model");
+  if (model && options.modelProfiles && !options.modelProfiles.includes(model)) {
+    throw new Error(`unknown model profile "${model}"`);
+  }
+
+  return {
+    id,
+    name: readString(data, "name") ?? id,
+    description: readString(data, "description"),
+    systemPrompt,
+    toolNames,
+    maxSteps,
+    model,
+    triggers: (readStringList(data, "triggers") ?? []).map((trigger) => trigger.toLowerCase())
+  };
+}
+
+function readString(data: Record<string, unknown>, key: string): string | undefined {
+  const value = data[key];
+  if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+    return undefined;
+  }
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new Error(`"${key}" must be a string`);
+  }
+  const text = String(value).trim();
+  return text || undefined;
+}
+
+function readStringList(data: Record<string, unknown>, key: string): string[] | undefined {
+  const value = data[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) {
+    throw new Error(`"${key}" must be a list of strings`);
+  }
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+// Only the flat subset of YAML that agent files need: scalars, [inline, lists] and "- item" lists.
+function parseFrontmatter(content: string): { data: Record<string, unknown>; body: string } {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n");
+  const match = normalized.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+  if (!match) {
+    throw new Error("missing frontmatter (start the file with a --- block)");
+  }
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  const lines = match[1].split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (!line.trim() || line.trim().startsWith("#")) {
+      continue;
+    }
+    const item = line.match(/^\s*-\s*(.*)$/);
+    if (item && listKey) {
+      (data[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) {
+      throw new Error(`frontmatter line ${index + 2} is not "key: value"`);
+    }
+    const [, key, raw] = pair;
+    const value = raw.trim();
+    listKey = null;
+    if (!value) {
+      data[key] = [];
+      listKey = key;
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      data[key] = value
+        .slice(1, -1)
+        .split(",")
+        .map((part) => unquote(part))
+        .filter(Boolean);
+    } else {
+      data[key] = unquote(value);
+    }
+  }
+  return { data, body: normalized.slice(match[0].length) };
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.endsWith(trimmed[0])) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
@@ -0,0 +1,189 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import type { ChatMessage, ToolCall } from "../llm/ollamaClient.js";
+import { getSessionsDir } from "../util/logger.js";
+import { buildAgentContext } from "./agents.js";
+import { SUMMARY_PREFIX } from "./context.js";
+
+export interface SessionInfo {
+  id: string;
+  filePath: string;
+  updated: Date;
+  messageCount: number;
+  preview?: string;
+}
+
+export async function listSessions(baseDir: string): Promise<SessionInfo[]> {
+  const sessionsDir = getSessionsDir(baseDir);
+  let names: string[];
+  try {
+    names = await fs.readdir(sessionsDir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+
+  const sessions: SessionInfo[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".jsonl")) {
+      continue;
+    }
+    const filePath = path.join(sessionsDir, name);
+    const stat = await fs.stat(filePath);
+    const messages = await loadSessionHistory(filePath);
+    const firstUser = messages.find((message) => message.role === "user" && message.content);
+    sessions.push({
+      id: name.slice(0, -".jsonl".length),
+      filePath,
+      updated: stat.mtime,
+      messageCount: messages.filter((message) => message.role !== "system").length,
+      preview: firstUser?.content?.replace(/\s+/g, " ").slice(0, 80)
+    });
+  }
+
+  return sessions.sort((a, b) => b.updated.getTime() - a.updated.getTime());
+}
+
+export async function resolveSessionPath(
+  baseDir: string,
+  ref: string,
+  options?: { exclude?: string }
+): Promise<string> {
+  const trimmed = ref.trim();
+  if (!trimmed) {
+    throw new Error("Session id is required");
+  }
+
+  if (trimmed === "latest") {
+    const sessions = (await listSessions(baseDir)).filter(
+      (session) => session.filePath !== options?.exclude && session.messageCount > 0
+    );
+    if (sessions.length === 0) {
+      throw new Error("No saved sessions found");
+    }
+    return sessions[0].filePath;
+  }
+
+  if (!/^[a-zA-Z0-9_.-]+$/.test(trimmed) || trimmed.includes("..")) {
+    throw new Error(`Invalid session id: ${trimmed}`);
+  }
+  const id = trimmed.endsWith(".jsonl") ? trimmed.slice(0, -".jsonl".length) : trimmed;
+  const filePath = path.join(getSessionsDir(baseDir), `${id}.jsonl`);
+  try {
+    await fs.access(filePath);
+  } catch {
+    throw new Error(`Session not found: ${id}`);
+  }
+  return filePath;
+}
+
+export async function loadSessionHistory(filePath: string): Promise<ChatMessage[]> {
+  const raw = await fs.readFile(filePath, "utf8");
+  let messages: ChatMessage[] = [];
+  let pendingToolCallIds: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if (entry.type === "restore" && Array.isArray(entry.messages)) {
+      messages = (entry.messages as ChatMessage[]).map((message) => ({ ...message }));
+      pendingToolCallIds = [];
+      continue;
+    }
+
+    if (entry.type === "message") {
+      if (entry.role === "system") {
+        messages = [{ role: "system", content: entry.content ?? "" }];
+        pendingToolCallIds = [];
+        continue;
+      }
+      if (entry.role === "user") {
+        messages.push({ role: "user", content: entry.content ?? "" });
+        continue;
+      }
+      if (entry.role === "assistant") {
+        const message: ChatMessage = { role: "assistant", content: entry.content ?? null };
+        if (Array.isArray(entry.tool_calls) && entry.tool_calls.length > 0) {
+          message.tool_calls = entry.tool_calls as ToolCall[];
+          pendingToolCallIds = message.tool_calls.map((call) => call.id);
+        }
+        messages.push(message);
+      }
+      continue;
+    }
+
+    if (entry.type === "tool_result") {
+      // Older logs did not record tool_call_id; pair results with calls in order.
+      const toolCallId = entry.tool_call_id ?? pendingToolCallIds[0];
+      pendingToolCallIds = pendingToolCallIds.filter((id) => id !== toolCallId);
+      if (!toolCallId) {
+        continue;
+      }
+      messages.push({ role: "tool", tool_call_id: toolCallId, content: JSON.stringify(entry.result) });
+      continue;
+    }
+
+    if ((entry.type === "plan_pinned" || entry.type === "checkpoint_restore") && typeof entry.content === "string") {
+      messages.push({ role: "system", content: entry.content });
+      continue;
+    }
+
+    if (entry.type === "agent" && typeof entry.name === "string") {
+      messages.push({ role: "system", content: buildAgentContext(entry.name, entry.content ?? "") });
+      continue;
+    }
+
+    if (entry.type === "compaction" && typeof entry.summary === "string") {
+      messages = applyLoggedCompaction(messages, entry.summary, Number(entry.removedMessages) || 0);
+    }
+  }
+
+  return messages;
+}
+
+export async function saveSessionSnapshot(
+  baseDir: string,
+  messages: ChatMessage[],
+  name?: string
+): Promise<string> {
+  const sessionsDir = getSessionsDir(baseDir);
+  await fs.mkdir(sessionsDir, { recursive: true });
+  const id = name?.trim() || `saved-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  if (!/^[a-zA-Z0-9_.-]+$/.test(id) || id.includes("..")) {
+    throw new Error(`Invalid session name: ${id}`);
+  }
+  const filePath = path.join(sessionsDir, `${id}.jsonl`);
+  const line = JSON.stringify({ ts: new Date().toISOString(), type: "restore", messages });
+  try {
+    await fs.writeFile(filePath, `${line}\n`, { encoding: "utf8", flag: "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`A session named ${id} already exists; choose another name.`);
+    }
+    throw err;
+  }
+  return id;
+}
+
+function applyLoggedCompaction(messages: ChatMessage[], summary: string, removedMessages: number): ChatMessage[] {
+  const head = messages.length > 0 && messages[0].role === "system" ? [messages[0]] : [];
+  let start = head.length;
+  if (messages[start]?.role === "system" && messages[start].content?.startsWith(SUMMARY_PREFIX)) {
+    start += 1;
+  }
+  return [
+    ...head,
+    { role: "system", content: `${SUMMARY_PREFIX}\n${summary}` },
+    ...messages.slice(start + removedMessages)
+  ];
+}
@@ -0,0 +1,49 @@
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+
+export const INSTRUCTIONS_FILE = "WORKSHOP.md";
+
+export interface InstructionFile {
+  scope: "user" | "project";
+  path: string;
+  content: string;
+}
+
+const MAX_INSTRUCTION_CHARS = 8000;
+
+export async function loadInstructions(workspaceRoot: string, homeDir = os.homedir()): Promise<InstructionFile[]> {
+  const candidates: Array<{ scope: InstructionFile["scope"]; path: string }> = [
+    { scope: "user", path: path.join(homeDir, ".workshop", INSTRUCTIONS_FILE) },
+    { scope: "project", path: path.join(workspaceRoot, INSTRUCTIONS_FILE) }
+  ];
+
+  const files: InstructionFile[] = [];
+  for (const candidate of candidates) {
+    const content = await readOptional(candidate.path);
+    if (!content || !content.trim()) {
+      continue;
+    }
+    const trimmed = content.trim();
+    files.push({
+      ...candidate,
+      content:
+        trimmed.length > MAX_INSTRUCTION_CHARS
+          ? `${trimmed.slice(0, MAX_INSTRUCTION_CHARS)}\n[... truncated, ${trimmed.length - MAX_INSTRUCTION_CHARS} characters omitted]`
+          : trimmed
+    });
+  }
+  return files;
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    if (code === "ENOENT" || code === "ENOTDIR" || code === "EISDIR") {
+      return null;
+    }
+    throw err;
+  }
+}
@@ -2,18 +2,47 @@ import path from "node:path";
 import readline from "node:readline";
 import {
   OllamaClient,
+  type ChatClient,
   type ChatMessage,
+  type CompletionUsage,
+  type ModelInfo,
   type ToolCall,
   type ToolCallDelta,
   type ToolDefinition
 } from "../llm/ollamaClient.js";
+import type { RetryEvent } from "../llm/retry.js";
 import { buildSystemPrompt } from "./systemPrompt.js";
-import { routeAgent } from "./router.js";
-import type { AgentProfile } from "./agents.js";
-import { createToolRegistry } from "../tools/index.js";
+import { loadInstructions, type InstructionFile } from "./instructions.js";
+import { routeRequest, type RouteDecision } from "./router.js";
+import { compactMessages, estimateMessageTokens, needsCompaction, type ContextBudget } from "./context.js";
+import {
+  DELEGATE_TOOL_NAME,
+  buildAgentContext,
+  buildDelegateTool,
+  getAgentById,
+  requireAgent,
+  type AgentProfile
+} from "./agents.js";
+import { loadAgentCatalog, type AgentLoadError } from "./customAgents.js";
+import { createToolRegistry, type ToolRegistry } from "../tools/index.js";
+import { createCheckpointStore, type CheckpointInfo } from "../tools/checkpoints.js";
+import { getTrashDir } from "../tools/fs.js";
+import { prepareToolArguments } from "../tools/validate.js";
 import { createSessionLogger } from "../util/logger.js";
 import { ensureWorkspaceRoot } from "../util/sandboxPath.js";
-import { DEFAULT_CONFIG, type LlmConfig } from "../util/config.js";
+import { mapWithConcurrency } from "../util/concurrency.js";
+import type { TokenUsage } from "../util/stats.js";
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_PROFILE,
+  resolveModelProfile,
+  resolveModelSelection,
+  resolveRoleProfiles,
+  type LlmConfig,
+  type ModelsConfig,
+  type RoutingMode
+} from "../util/config.js";
+import { createChatClient, type FallbackEvent } from "../llm/fallback.js";
 
 export interface AgentOptions {
   request: string;
@@ -25,24 +54,93 @@ export interface AgentOptions {
 export interface AgentSessionOptions {
   autoApprove: boolean;
   maxSteps: number;
-  confirm?: (question: string) => Promise<boolean>;
+  confirm?: (question: string, preview?: string) => Promise<boolean>;
   onToken?: (token: string) => void;
   onAgent?: (event: { name: string; content: string }) => void;
   workspaceRoot?: string;
   baseDir?: string;
   llmConfig?: LlmConfig;
+  models?: ModelsConfig;
+  model?: string;
+  compactThreshold?: number;
+  patchFuzz?: number;
+  keepRecentTurns?: number;
+  routing?: RoutingMode;
+  routingMinConfidence?: number;
+  toolConcurrency?: number;
+  onRetry?: (event: RetryEvent) => void;
+  onFallback?: (event: FallbackEvent) => void;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+interface TurnContext {
+  signal?: AbortSignal;
+  onAgent?: (event: { name: string; content: string }) => void;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+interface SpecialistToolCall {
+  name: string;
+  arguments: unknown;
+  error?: string;
+}
+
+interface SpecialistResult {
+  content: string;
+  trace: SpecialistToolCall[];
+}
+
+interface PreparedToolCall {
+  toolCall: ToolCall;
+  toolName: string;
+  args?: any;
+  failure?: Record<string, unknown>;
 }
 
+export type PlanDecision = "approved" | "edited" | "rejected";
+
+const PLAN_INSTRUCTIONS = [
+  "Plan mode: do not call any tools yet.",
+  "Reply only with a numbered list of the steps you intend to take for the request above.",
+  "Name the tool and its target in each step, for example: 1. fs_read notes.txt to check the outline.",
+  "Mark steps that change files with [write]. If no tools are needed, reply with a one-step plan that says so."
+].join("\n");
+
+const APPROVED_PLAN_PREFIX =
+  "The user approved this plan. Follow it step by step; if a step turns out to be wrong, say why before deviating.";
+
 export interface AgentSession {
   runTurn: (
     request: string,
     options?: {
       onToken?: (token: string) => void;
       onAgent?: (event: { name: string; content: string }) => void;
+      onUsage?: (usage: TokenUsage) => void;
       signal?: AbortSignal;
+      agent?: string;
+      plan?: string;
     }
   ) => Promise<string>;
+  proposePlan: (
+    request: string,
+    options?: { signal?: AbortSignal; onUsage?: (usage: TokenUsage) => void }
+  ) => Promise<string>;
+  recordPlanDecision: (decision: PlanDecision, plan: string) => Promise<void>;
   reset: () => Promise<void>;
+  restore: (history: ChatMessage[], source?: string) => Promise<void>;
+  undo: (checkpointId?: string) => Promise<CheckpointInfo[]>;
+  listCheckpoints: () => Promise<CheckpointInfo[]>;
+  getMessages: () => ChatMessage[];
+  setModel: (name: string) => Promise<void>;
+  getModel: () => string;
+  listModels: (signal?: AbortSignal) => Promise<ModelInfo[]>;
+  setRouting: (enabled: boolean) => void;
+  isRoutingEnabled: () => boolean;
+  getInstructions: () => InstructionFile[];
+  agents: AgentProfile[];
+  agentLoadErrors: AgentLoadError[];
+  sessionId: string;
+  logFilePath: string;
 }
 
 export async function createAgentSession(options: AgentSessionOptions): Promise<AgentSession> {
@@ -52,15 +150,68 @@ export async function createAgentSession(options: AgentSessionOptions): Promise<
 
   const llmConfig = options.llmConfig ?? DEFAULT_CONFIG.llm;
   const logger = await createSessionLogger(baseDir);
-  const tools = createToolRegistry(workspaceRoot, llmConfig);
-  const client = new OllamaClient({
-    baseUrl: llmConfig.baseUrl,
-    apiKey: llmConfig.apiKey,
-    model: llmConfig.model
+  const clientHooks = {
+    onRetry: options.onRetry,
+    onFallback: (event: FallbackEvent) => {
+      void logger.log({ type: "fallback", ...event });
+      options.onFallback?.(event);
+    }
+  };
+  let mainProfiles = resolveRoleProfiles(llmConfig, options.models, "main");
+  if (options.model) {
+    mainProfiles = [resolveModelSelection(llmConfig, options.models, mainProfiles[0].config, options.model)];
+  }
+  let client = createChatClient(mainProfiles, clientHooks);
+  const agentClient = createChatClient(resolveRoleProfiles(llmConfig, options.models, "agents"), {
+    onRetry: options.onRetry
+  });
+  const routerClient = createChatClient(resolveRoleProfiles(llmConfig, options.models, "router"));
+  const docClient = createChatClient(resolveRoleProfiles(llmConfig, options.models, "docSummarize"));
+  const checkpoints = createCheckpointStore(baseDir, workspaceRoot);
+  const tools = createToolRegistry(workspaceRoot, llmConfig, docClient, {
+    checkpoints,
+    patchFuzz: options.patchFuzz ?? DEFAULT_CONFIG.agent.patchFuzz,
+    trashDir: getTrashDir(baseDir)
   });
+  const agentCatalog = await loadAgentCatalog(baseDir, {
+    knownTools: tools.definitions.map((tool) => tool.function.name),
+    modelProfiles: [DEFAULT_PROFILE, ...Object.keys(options.models?.profiles ?? {})]
+  });
+  for (const error of agentCatalog.errors) {
+    await logger.log({ type: "agent_load_error", file: error.file, error: error.message });
+  }
+  tools.definitions.push(buildDelegateTool(agentCatalog.agents));
+  const agentClients = new Map<string, ChatClient>();
+  const clientForAgent = (agent: AgentProfile): ChatClient => {
+    if (!agent.model) {
+      return agentClient;
+    }
+    let existing = agentClients.get(agent.model);
+    if (!existing) {
+      const config = resolveModelProfile(llmConfig, options.models, agent.model);
+      existing = createChatClient([{ name: agent.model, config }], { onRetry: options.onRetry });
+      agentClients.set(agent.model, existing);
+    }
+    return existing;
+  };
 
   const confirm = options.confirm ?? promptYesNo;
-  let messages: ChatMessage[] = [{ role: "system", content: buildSystemPrompt(options.autoApprove) }];
+  const budget: ContextBudget = {
+    contextWindow: mainProfiles[0].config.contextWindow ?? DEFAULT_CONFIG.llm.contextWindow,
+    threshold: options.compactThreshold ?? DEFAULT_CONFIG.agent.compactThreshold,
+    keepRecentTurns: options.keepRecentTurns ?? DEFAULT_CONFIG.agent.keepRecentTurns
+  };
+  const toolConcurrency = Math.max(1, options.toolConcurrency ?? DEFAULT_CONFIG.agent.toolConcurrency);
+  let routingEnabled = true;
+  let instructions = await loadInstructions(workspaceRoot);
+  const systemPrompt = () =>
+    buildSystemPrompt({
+      autoApprove: options.autoApprove,
+      tools: tools.definitions,
+      writeTools: tools.writeTools,
+      instructions
+    });
+  let messages: ChatMessage[] = [{ role: "system", content: systemPrompt() }];
   await logger.log({ type: "message", role: "system", content: messages[0].content });
 
   async function runTurn(
@@ -68,18 +219,58 @@ export async function createAgentSession(options: AgentSessionOptions): Promise<
     runOptions?: {
       onToken?: (token: string) => void;
       onAgent?: (event: { name: string; content: string }) => void;
+      onUsage?: (usage: TokenUsage) => void;
       signal?: AbortSignal;
+      agent?: string;
+      plan?: string;
     }
   ): Promise<string> {
     const onToken = runOptions?.onToken ?? options.onToken;
     const onAgent = runOptions?.onAgent ?? options.onAgent;
+    const onUsage = runOptions?.onUsage ?? options.onUsage;
     const signal = runOptions?.signal;
+    const selected = runOptions?.agent ? requireAgent(runOptions.agent, agentCatalog.agents) : null;
     messages.push({ role: "user", content: request });
     await logger.log({ type: "message", role: "user", content: request });
+    checkpoints.beginTurn(request);
+    if (runOptions?.plan) {
+      const pinned = `${APPROVED_PLAN_PREFIX}\n${runOptions.plan}`;
+      messages.push({ role: "system", content: pinned });
+      await logger.log({ type: "plan_pinned", content: pinned });
+    }
 
-    const routed = routeAgent(request);
+    let routed: RouteDecision | null = null;
+    if (selected) {
+      routed = { agent: selected, reason: "Selected by the user", source: "explicit" };
+    } else if (routingEnabled) {
+      routed = await routeRequest(request, {
+        client: routerClient,
+        profiles: agentCatalog.agents,
+        mode: options.routing,
+        minConfidence: options.routingMinConfidence,
+        signal
+      });
+    }
     if (routed) {
-      const draft = await runSpecialistAgent(client, tools, routed.agent, request, signal);
+      await logger.log({
+        type: "route",
+        agent: routed.agent?.id ?? null,
+        confidence: routed.confidence,
+        source: routed.source,
+        reason: routed.reason
+      });
+    }
+    if (routed?.agent) {
+      const specialist = await runSpecialistAgent(
+        clientForAgent(routed.agent),
+        tools,
+        routed.agent,
+        request,
+        approveWrite,
+        signal,
+        onUsage
+      );
+      const draft = specialist.content;
       if (draft.trim()) {
         onAgent?.({ name: routed.agent.name, content: draft });
         await logger.log({
@@ -87,21 +278,26 @@ export async function createAgentSession(options: AgentSessionOptions): Promise<
           id: routed.agent.id,
           name: routed.agent.name,
           reason: routed.reason,
-          content: draft
+          content: draft,
+          trace: specialist.trace
         });
         messages.push({
           role: "system",
-          content: buildAgentContext(routed.agent, draft)
+          content: buildAgentContext(routed.agent.name, draft)
         });
       }
     }
 
     for (let step = 0; step < options.maxSteps; step += 1) {
+      await compactIfNeeded(signal);
       let message: ChatMessage | null = null;
 
+      let usage: CompletionUsage | undefined;
+
       if (onToken) {
         const streamed = await streamAssistantResponse(client, messages, tools.definitions, onToken, signal);
-        message = streamed;
+        message = streamed.message;
+        usage = streamed.usage;
       } else {
         const response = await client.chat({
           messages,
@@ -111,64 +307,49 @@ export async function createAgentSession(options: AgentSessionOptions): Promise<
         });
         const choice = response.choices[0];
         message = choice?.message ?? null;
+        usage = response.usage;
       }
 
       if (!message) {
         return "No response from model.";
       }
 
+      onUsage?.(resolveUsage(usage, messages, message));
+
       messages.push(message);
       await logger.log({ type: "message", role: "assistant", content: message.content, tool_calls: message.tool_calls });
 
       if (message.tool_calls && message.tool_calls.length > 0) {
+        const prepared: PreparedToolCall[] = [];
         for (const toolCall of message.tool_calls) {
           const toolName = toolCall.function.name;
-          let args: any = {};
-          try {
-            args = JSON.parse(toolCall.function.arguments || "{}");
-          } catch (err) {
-            const error = `Invalid tool arguments for ${toolName}`;
-            const toolMessage = {
-              role: "tool" as const,
-              tool_call_id: toolCall.id,
-              content: JSON.stringify({ error })
-            };
-            messages.push(toolMessage);
-            await logger.log({ type: "tool_call", name: toolName, arguments: toolCall.function.arguments });
-            await logger.log({ type: "tool_result", name: toolName, result: { error } });
-            continue;
-          }
-
-          await logger.log({ type: "tool_call", name: toolName, arguments: args });
-
-          let allowed = true;
-          if (tools.writeTools.has(toolName) && !options.autoApprove) {
-            allowed = await confirm(`Approve ${toolName} to write to workspace? (y/N) `);
-          }
-
-          let result: any;
-          if (!allowed) {
-            result = { error: "User declined write operation" };
+          const rawArguments = toolCall.function.arguments;
+          const parsed = prepareToolArguments(findDefinition(tools.definitions, toolName), rawArguments);
+          if (parsed.errors.length > 0) {
+            prepared.push({ toolCall, toolName, failure: buildArgumentError(toolName, parsed.errors) });
           } else {
-            const handler = tools.handlers[toolName];
-            if (!handler) {
-              result = { error: `Unknown tool: ${toolName}` };
-            } else {
-              try {
-                result = await handler(args);
-              } catch (err) {
-                result = { error: (err as Error).message };
-              }
-            }
+            prepared.push({ toolCall, toolName, args: parsed.args });
           }
+          await logger.log({
+            type: "tool_call",
+            name: toolName,
+            arguments: parsed.args ?? rawArguments,
+            ...(parsed.repaired || parsed.errors.length > 0
+              ? { rawArguments, repairs: parsed.repairs, errors: parsed.errors }
+              : {})
+          });
+        }
 
-          const toolMessage = {
-            role: "tool" as const,
+        const results = await executeToolCalls(prepared, { signal, onAgent, onUsage });
+        for (let index = 0; index < prepared.length; index += 1) {
+          const { toolCall, toolName } = prepared[index];
+          const result = results[index];
+          messages.push({
+            role: "tool",
             tool_call_id: toolCall.id,
             content: JSON.stringify(result)
-          };
-          messages.push(toolMessage);
-          await logger.log({ type: "tool_result", name: toolName, result });
+          });
+          await logger.log({ type: "tool_result", name: toolName, tool_call_id: toolCall.id, result });
         }
         continue;
       }
@@ -181,12 +362,246 @@ export async function createAgentSession(options: AgentSessionOptions): Promise<
     return `Reached max steps (${options.maxSteps}) without final response.`;
   }
 
+  async function executeToolCalls(prepared: PreparedToolCall[], context: TurnContext): Promise<any[]> {
+    const results: any[] = new Array(prepared.length);
+    let index = 0;
+    while (index < prepared.length) {
+      if (isWriteCall(prepared[index])) {
+        results[index] = await executeToolCall(prepared[index], context);
+        index += 1;
+        continue;
+      }
+      // Consecutive read-only calls cannot conflict, so run them together; writes act as barriers.
+      const batchStart = index;
+      while (index < prepared.length && !isWriteCall(prepared[index])) {
+        index += 1;
+      }
+      const batch = prepared.slice(batchStart, index);
+      const batchResults = await mapWithConcurrency(batch, toolConcurrency, (call) => executeToolCall(call, context));
+      batchResults.forEach((result, offset) => {
+        results[batchStart + offset] = result;
+      });
+    }
+    return results;
+  }
+
+  function isWriteCall(call: PreparedToolCall): boolean {
+    if (call.failure) {
+      return false;
+    }
+    if (call.toolName === DELEGATE_TOOL_NAME) {
+      // A specialist that can write may prompt for approval, so it must not run alongside other calls.
+      const agent = getAgentById(call.args?.agent, agentCatalog.agents);
+      return Boolean(agent?.toolNames?.some((name) => tools.writeTools.has(name)));
+    }
+    return tools.writeTools.has(call.toolName);
+  }
+
+  async function approveWrite(toolName: string, agent?: AgentProfile, args?: any): Promise<boolean> {
+    if (options.autoApprove) {
+      return true;
+    }
+    const actor = agent ? `${agent.name} agent's ${toolName}` : toolName;
+    return confirm(`Approve ${actor} to write to workspace? (y/N) `, await previewWrite(toolName, args));
+  }
+
+  // Write tools that accept dryRun are run once without writing so the prompt can show their diff.
+  async function previewWrite(toolName: string, args: any): Promise<string | undefined> {
+    const properties = findDefinition(tools.definitions, toolName)?.function.parameters.properties as
+      | Record<string, unknown>
+      | undefined;
+    if (!properties?.dryRun || !args) {
+      return undefined;
+    }
+    try {
+      return formatWritePreview(await tools.handlers[toolName]({ ...args, dryRun: true }));
+    } catch (err) {
+      return `Preview failed: ${(err as Error).message}`;
+    }
+  }
+
+  async function executeToolCall(call: PreparedToolCall, context: TurnContext): Promise<any> {
+    if (call.failure) {
+      return call.failure;
+    }
+    if (call.toolName === DELEGATE_TOOL_NAME) {
+      return delegateToAgent(call.args, context);
+    }
+
+    const needsApproval = tools.writeTools.has(call.toolName) && !call.args?.dryRun;
+    if (needsApproval && !(await approveWrite(call.toolName, undefined, call.args))) {
+      return { error: "User declined write operation" };
+    }
+
+    const handler = tools.handlers[call.toolName];
+    if (!handler) {
+      return { error: `Unknown tool: ${call.toolName}` };
+    }
+    try {
+      return await handler(call.args);
+    } catch (err) {
+      return { error: (err as Error).message };
+    }
+  }
+
+  async function delegateToAgent(args: { agent: string; task: string }, context: TurnContext): Promise<any> {
+    const agent = getAgentById(args.agent, agentCatalog.agents);
+    if (!agent) {
+      return { error: `Unknown agent: ${args.agent}` };
+    }
+    try {
+      const result = await runSpecialistAgent(
+        clientForAgent(agent),
+        tools,
+        agent,
+        args.task,
+        approveWrite,
+        context.signal,
+        context.onUsage
+      );
+      if (result.content.trim()) {
+        context.onAgent?.({ name: agent.name, content: result.content });
+      }
+      await logger.log({
+        type: "delegation",
+        id: agent.id,
+        name: agent.name,
+        task: args.task,
+        content: result.content,
+        trace: result.trace
+      });
+      return {
+        agent: agent.id,
+        output: result.content || "(the agent returned no output)",
+        toolCalls: result.trace
+      };
+    } catch (err) {
+      if (context.signal?.aborted) {
+        throw err;
+      }
+      return { error: `Agent ${agent.id} failed: ${(err as Error).message}` };
+    }
+  }
+
+  async function compactIfNeeded(signal?: AbortSignal): Promise<void> {
+    if (!needsCompaction(messages, budget)) {
+      return;
+    }
+    const result = await compactMessages(client, messages, budget, signal);
+    if (!result.compacted) {
+      return;
+    }
+    messages = result.messages;
+    await logger.log({
+      type: "compaction",
+      tokensBefore: result.tokensBefore,
+      tokensAfter: result.tokensAfter,
+      removedMessages: result.removedMessages,
+      truncatedToolResults: result.truncatedToolResults,
+      summary: result.summary
+    });
+  }
+
+  async function proposePlan(
+    request: string,
+    planOptions?: { signal?: AbortSignal; onUsage?: (usage: TokenUsage) => void }
+  ): Promise<string> {
+    const prompt: ChatMessage[] = [
+      ...messages,
+      { role: "user", content: request },
+      { role: "system", content: PLAN_INSTRUCTIONS }
+    ];
+    const response = await client.chat({
+      messages: prompt,
+      tools: tools.definitions,
+      toolChoice: "none",
+      signal: planOptions?.signal
+    });
+    const message = response.choices[0]?.message;
+    const plan = message?.content?.trim();
+    if (!message || !plan) {
+      throw new Error("The model did not return a plan.");
+    }
+    (planOptions?.onUsage ?? options.onUsage)?.(resolveUsage(response.usage, prompt, message));
+    await logger.log({ type: "plan", request, plan });
+    return plan;
+  }
+
+  async function recordPlanDecision(decision: PlanDecision, plan: string): Promise<void> {
+    await logger.log({ type: "plan_decision", decision, plan });
+  }
+
   async function reset(): Promise<void> {
-    messages = [{ role: "system", content: buildSystemPrompt(options.autoApprove) }];
+    instructions = await loadInstructions(workspaceRoot);
+    messages = [{ role: "system", content: systemPrompt() }];
     await logger.log({ type: "message", role: "system", content: messages[0].content });
   }
 
-  return { runTurn, reset };
+  async function restore(history: ChatMessage[], source?: string): Promise<void> {
+    const rest = history.length > 0 && history[0].role === "system" ? history.slice(1) : history;
+    messages = [{ role: "system", content: systemPrompt() }, ...rest];
+    await logger.log({ type: "restore", source, messages });
+  }
+
+  async function undo(checkpointId?: string): Promise<CheckpointInfo[]> {
+    const restored = checkpointId ? await checkpoints.restore(checkpointId) : await checkpoints.undo();
+    const files = [...new Set(restored.flatMap((checkpoint) => checkpoint.files.map((file) => file.path)))];
+    const note = `The user reverted workspace changes from ${restored.length} earlier turn(s). These files are back to their earlier state; re-read them before relying on previous tool results: ${files.join(", ")}`;
+    messages.push({ role: "system", content: note });
+    await logger.log({
+      type: "checkpoint_restore",
+      checkpoints: restored.map((checkpoint) => checkpoint.id),
+      files,
+      content: note
+    });
+    return restored;
+  }
+
+  function getMessages(): ChatMessage[] {
+    return [...messages];
+  }
+
+  async function setModel(name: string): Promise<void> {
+    const selected = resolveModelSelection(llmConfig, options.models, mainProfiles[0].config, name);
+    mainProfiles = [selected];
+    client = createChatClient(mainProfiles, clientHooks);
+    budget.contextWindow = selected.config.contextWindow ?? DEFAULT_CONFIG.llm.contextWindow;
+    await logger.log({ type: "model", profile: selected.name, model: selected.config.model });
+  }
+
+  function getModel(): string {
+    return mainProfiles[0].config.model;
+  }
+
+  // Lists the models served by the endpoint this session currently talks to.
+  function listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    return new OllamaClient(mainProfiles[0].config).listModels(signal);
+  }
+
+  function setRouting(enabled: boolean): void {
+    routingEnabled = enabled;
+  }
+
+  return {
+    runTurn,
+    proposePlan,
+    recordPlanDecision,
+    reset,
+    restore,
+    undo,
+    listCheckpoints: checkpoints.list,
+    getMessages,
+    setModel,
+    getModel,
+    listModels,
+    setRouting,
+    isRoutingEnabled: () => routingEnabled,
+    getInstructions: () => [...instructions],
+    agents: agentCatalog.agents,
+    agentLoadErrors: agentCatalog.errors,
+    sessionId: path.basename(logger.filePath, ".jsonl"),
+    logFilePath: logger.filePath
+  };
 }
 
 export async function runAgent(options: AgentOptions): Promise<string> {
@@ -198,7 +613,10 @@ export async function runAgent(options: AgentOptions): Promise<string> {
   return session.runTurn(options.request);
 }
 
-async function promptYesNo(question: string): Promise<boolean> {
+async function promptYesNo(question: string, preview?: string): Promise<boolean> {
+  if (preview) {
+    console.log(preview);
+  }
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
@@ -214,16 +632,20 @@ async function promptYesNo(question: string): Promise<boolean> {
 }
 
 async function streamAssistantResponse(
-  client: OllamaClient,
+  client: ChatClient,
   messages: ChatMessage[],
   tools: { type: "function"; function: { name: string; description: string; parameters: Record<string, unknown> } }[],
   onToken: (token: string) => void,
   signal?: AbortSignal
-): Promise<ChatMessage> {
+): Promise<{ message: ChatMessage; usage?: CompletionUsage }> {
   let content = "";
   const toolCalls: ToolCall[] = [];
+  let usage: CompletionUsage | undefined;
 
   for await (const chunk of client.chatStream({ messages, tools, toolChoice: "auto", signal })) {
+    if (chunk.usage) {
+      usage = chunk.usage;
+    }
     const choice = chunk.choices[0];
     const delta = choice?.delta;
     if (!delta) {
@@ -245,24 +667,30 @@ async function streamAssistantResponse(
   if (toolCalls.length > 0) {
     message.tool_calls = toolCalls;
   }
-  return message;
+  return { message, usage };
 }
 
-function buildAgentContext(agent: AgentProfile, content: string): string {
-  return [
-    `Specialist agent (${agent.name}) output:`,
-    content,
-    "Use this as draft guidance and respond to the user."
-  ].join("\n");
+function resolveUsage(usage: CompletionUsage | undefined, prompt: ChatMessage[], reply: ChatMessage): TokenUsage {
+  if (usage && (usage.prompt_tokens > 0 || usage.completion_tokens > 0)) {
+    return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, estimated: false };
+  }
+  return {
+    promptTokens: estimateMessageTokens(prompt),
+    completionTokens: estimateMessageTokens([reply]),
+    estimated: true
+  };
 }
 
 async function runSpecialistAgent(
-  client: OllamaClient,
-  tools: { definitions: ToolDefinition[]; handlers: Record<string, (args: any) => Promise<any>> },
+  client: ChatClient,
+  tools: ToolRegistry,
   agent: AgentProfile,
   request: string,
-  signal?: AbortSignal
-): Promise<string> {
+  approveWrite: (toolName: string, agent: AgentProfile, args?: any) => Promise<boolean>,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<SpecialistResult> {
+  const trace: SpecialistToolCall[] = [];
   const messages: ChatMessage[] = [
     { role: "system", content: agent.systemPrompt },
     { role: "user", content: request }
@@ -283,26 +711,28 @@ async function runSpecialistAgent(
     if (!message) {
       break;
     }
+    onUsage?.(resolveUsage(response.usage, messages, message));
     messages.push(message);
     if (message.tool_calls && message.tool_calls.length > 0) {
       for (const toolCall of message.tool_calls) {
         const toolName = toolCall.function.name;
-        let args: any = {};
-        try {
-          args = JSON.parse(toolCall.function.arguments || "{}");
-        } catch (err) {
-          const error = `Invalid tool arguments for ${toolName}`;
+        const parsed = prepareToolArguments(findDefinition(agentTools.definitions, toolName), toolCall.function.arguments);
+        if (parsed.errors.length > 0) {
+          trace.push({ name: toolName, arguments: toolCall.function.arguments, error: "Invalid arguments" });
           messages.push({
             role: "tool",
             tool_call_id: toolCall.id,
-            content: JSON.stringify({ error })
+            content: JSON.stringify(buildArgumentError(toolName, parsed.errors))
           });
           continue;
         }
+        const args = parsed.args;
         const handler = agentTools.handlers[toolName];
         let result: any;
         if (!handler) {
           result = { error: `Unknown tool: ${toolName}` };
+        } else if (tools.writeTools.has(toolName) && !args?.dryRun && !(await approveWrite(toolName, agent, args))) {
+          result = { error: "User declined write operation" };
         } else {
           try {
             result = await handler(args);
@@ -310,6 +740,7 @@ async function runSpecialistAgent(
             result = { error: (err as Error).message };
           }
         }
+        trace.push({ name: toolName, arguments: args, ...(result?.error ? { error: String(result.error) } : {}) });
         messages.push({
           role: "tool",
           tool_call_id: toolCall.id,
@@ -319,11 +750,34 @@ async function runSpecialistAgent(
       continue;
     }
     if (message.content && message.content.trim().length > 0) {
-      return message.content;
+      return { content: message.content, trace };
     }
   }
 
-  return "";
+  return { content: "", trace };
+}
+
+function formatWritePreview(result: any): string | undefined {
+  const files: Array<{ diff?: string }> = Array.isArray(result?.files) ? result.files : [];
+  const lines = [
+    typeof result?.summary === "string" ? result.summary : "",
+    ...files.map((file) => file.diff ?? ""),
+    typeof result?.diff === "string" ? result.diff : ""
+  ];
+  const preview = lines.filter((line) => line.trim()).join("\n");
+  return preview || undefined;
+}
+
+function findDefinition(definitions: ToolDefinition[], name: string): ToolDefinition | undefined {
+  return definitions.find((tool) => tool.function.name === name);
+}
+
+function buildArgumentError(toolName: string, errors: string[]): Record<string, unknown> {
+  return {
+    error: `Invalid arguments for ${toolName}`,
+    details: errors,
+    hint: "Fix the arguments to match the tool's parameter schema and call it again."
+  };
 }
 
 function filterTools(
@@ -1,22 +1,142 @@
 import type { AgentProfile } from "./agents.js";
-import { emailWriterAgent, researchAgent } from "./agents.js";
+import { agentProfiles, coderAgent, emailWriterAgent, researchAgent } from "./agents.js";
+import type { ChatClient } from "../llm/ollamaClient.js";
+import { parseArguments } from "../tools/validate.js";
+import type { RoutingMode } from "../util/config.js";
 
 export interface RoutedAgent {
   agent: AgentProfile;
   reason: string;
 }
 
-export function routeAgent(request: string): RoutedAgent | null {
+export interface RouteDecision {
+  agent: AgentProfile | null;
+  confidence?: number;
+  reason: string;
+  source: "keywords" | "model" | "fallback" | "explicit";
+}
+
+export interface RouteOptions {
+  client?: Pick<ChatClient, "chat">;
+  mode?: RoutingMode;
+  minConfidence?: number;
+  profiles?: AgentProfile[];
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+export async function routeRequest(request: string, options: RouteOptions = {}): Promise<RouteDecision | null> {
+  // Keyword rules are the prefilter: requests that look like plain chat never pay for a classifier call.
+  const profiles = options.profiles ?? agentProfiles;
+  const candidate = routeAgent(request, profiles);
+  if (!candidate) {
+    return null;
+  }
+  if (options.mode === "keywords" || !options.client) {
+    return { agent: candidate.agent, reason: candidate.reason, source: "keywords" };
+  }
+
+  try {
+    const classified = await classifyIntent(options.client, request, profiles, options.signal);
+    const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    if (classified.agent && classified.confidence < minConfidence) {
+      return {
+        agent: null,
+        confidence: classified.confidence,
+        reason: `${classified.agent.name} below confidence threshold (${minConfidence})`,
+        source: "model"
+      };
+    }
+    return { ...classified, source: "model" };
+  } catch (err) {
+    if (options.signal?.aborted) {
+      throw err;
+    }
+    return {
+      agent: candidate.agent,
+      reason: `${candidate.reason} (classifier unavailable: ${(err as Error).message})`,
+      source: "fallback"
+    };
+  }
+}
+
+export async function classifyIntent(
+  client: Pick<ChatClient, "chat">,
+  request: string,
+  profiles: AgentProfile[],
+  signal?: AbortSignal
+): Promise<{ agent: AgentProfile | null; confidence: number; reason: string }> {
+  const catalog = profiles.map((profile) => `- ${profile.id}: ${profile.description ?? profile.name}`).join("\n");
+  const response = await client.chat({
+    messages: [
+      {
+        role: "system",
+        content: [
+          "You route user requests to specialist agents.",
+          "Pick an agent only when the user wants that agent's deliverable; mentioning a related word is not enough.",
+          'Answer with JSON only: {"agent": "<id or none>", "confidence": <0 to 1>, "reason": "<a few words>"}'
+        ].join("\n")
+      },
+      { role: "user", content: `Agents:\n${catalog}\n\nRequest: ${request}` }
+    ],
+    temperature: 0,
+    signal
+  });
+
+  const parsed = parseArguments(response.choices[0]?.message?.content ?? "");
+  if (parsed.error || !parsed.value || typeof parsed.value !== "object" || Array.isArray(parsed.value)) {
+    throw new Error("classifier reply was not a JSON object");
+  }
+  const value = parsed.value as { agent?: unknown; confidence?: unknown; reason?: unknown };
+  const id = typeof value.agent === "string" ? value.agent.trim() : "";
+  const agent = id && id.toLowerCase() !== "none" ? profiles.find((profile) => profile.id === id) : undefined;
+  if (id && id.toLowerCase() !== "none" && !agent) {
+    throw new Error(`classifier picked unknown agent "${id}"`);
+  }
+  const confidence = Number(value.confidence);
+  return {
+    agent: agent ?? null,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+    reason: typeof value.reason === "string" && value.reason.trim() ? value.reason.trim() : "Classified by model"
+  };
+}
+
+export function routeAgent(request: string, profiles: AgentProfile[] = agentProfiles): RoutedAgent | null {
   const text = request.toLowerCase();
+  for (const agent of profiles) {
+    const trigger = agent.triggers?.find((phrase) => text.includes(phrase));
+    if (trigger) {
+      return { agent, reason: `Trigger phrase "${trigger}" matched` };
+    }
+  }
   if (isResearchRequest(text)) {
     return { agent: researchAgent, reason: "Research intent detected" };
   }
   if (isEmailDraftRequest(text)) {
     return { agent: emailWriterAgent, reason: "Email drafting intent detected" };
   }
+  if (isCodeRequest(text)) {
+    return { agent: coderAgent, reason: "Code editing intent detected" };
+  }
   return null;
 }
 
+const CODE_FILE_PATTERN = /\b[\w./-]+\.(ts|tsx|js|jsx|mjs|cjs|py|go|rs|java|kt|c|cc|cpp|h|hpp|cs|rb|php|swift|sh|ps1|css|scss|html|vue|svelte|sql)\b/;
+
+function isCodeRequest(text: string): boolean {
+  if (/\b(refactor|refactoring|debug)\b/.test(text)) {
+    return true;
+  }
+  if (text.includes("fix the bug") || text.includes("fix bug in") || text.includes("fix the error in")) {
+    return true;
+  }
+  if (/\b(fix|edit|change|update|rename|implement|add)\b/.test(text) && CODE_FILE_PATTERN.test(text)) {
+    return true;
+  }
+  return false;
+}
+
 function isEmailDraftRequest(text: string): boolean {
   const hasEmailWord = /\b(e-?mail)\b/.test(text);
   const hasEmailIntent = /\b(draft|reply|respond|compose|write)\b/.test(text);
@@ -3,20 +3,26 @@ import { Command } from "commander";
 import path from "node:path";
 import fs from "node:fs/promises";
 import { spawn } from "node:child_process";
-import { createAgentSession, runAgent } from "./agent/loop.js";
+import { createAgentSession, runAgent, type AgentSession, type PlanDecision } from "./agent/loop.js";
+import type { CheckpointInfo } from "./tools/checkpoints.js";
+import { getAgentById } from "./agent/agents.js";
+import { listSessions, loadSessionHistory, resolveSessionPath, saveSessionSnapshot } from "./agent/history.js";
 import { ensureWorkspaceRoot } from "./util/sandboxPath.js";
 import { createSpinner } from "./util/spinner.js";
 import { applyForceUpdate, applyUpdate, applyUpdateWithStash, checkForUpdates } from "./util/updater.js";
-import { colors } from "./util/colors.js";
+import { colorizeDiff, colors } from "./util/colors.js";
 import { createPushToTalk } from "./util/speechToText.js";
 import { createProgressBar } from "./util/progress.js";
-import { ConversationStats, estimateTokens } from "./util/stats.js";
+import { ConversationStats, estimateTokens, type TokenUsage } from "./util/stats.js";
 import { createMarkdownStreamRenderer, renderMarkdownToAnsi } from "./util/markdown.js";
 import { startServer } from "./server/server.js";
 import { createRemoteSession } from "./util/remoteClient.js";
 import { formatVersionBanner, getVersionInfo } from "./util/version.js";
-import { DEFAULT_CONFIG, ensureConfigFile, loadConfig, redactConfig } from "./util/config.js";
+import { DEFAULT_CONFIG, ensureConfigFile, loadConfig, redactConfig, resolveRoleProfiles } from "./util/config.js";
+import { OllamaClient, type ModelInfo } from "./llm/ollamaClient.js";
 import { runHealthChecks } from "./util/health.js";
+import type { RetryEvent } from "./llm/retry.js";
+import type { FallbackEvent } from "./llm/fallback.js";
 
 const program = new Command();
 program
@@ -107,6 +113,22 @@ program
     }
   });
 
+program
+  .command("models")
+  .description("List the models served by the configured endpoint")
+  .action(async () => {
+    try {
+      const config = await loadConfig(process.cwd());
+      const primary = resolveRoleProfiles(config.llm, config.models, "main")[0].config;
+      const models = await new OllamaClient(primary).listModels();
+      console.log(colors.info(`Endpoint: ${primary.baseUrl}`));
+      printModels(models, primary.model);
+    } catch (err) {
+      console.error(colors.error((err as Error).message));
+      process.exitCode = 1;
+    }
+  });
+
 program
   .command("serve")
   .description("Start Workshop.AI server for remote clients")
@@ -133,7 +155,14 @@ program
         maxSteps,
         autoApprove,
         baseDir: process.cwd(),
-        llmConfig: config.llm
+        llmConfig: config.llm,
+        models: config.models,
+        compactThreshold: config.agent.compactThreshold,
+        patchFuzz: config.agent.patchFuzz,
+        toolConcurrency: config.agent.toolConcurrency,
+        keepRecentTurns: config.agent.keepRecentTurns,
+        routing: config.agent.routing,
+        routingMinConfidence: config.agent.routingMinConfidence
       });
       console.log(colors.info(`Workshop.AI server listening on http://${host}:${port}`));
       if (token) {
@@ -157,6 +186,8 @@ program
   .option("--remote <url>", "Use a remote Workshop.AI server")
   .option("--token <token>", "Remote auth token")
   .option("--user <id>", "Remote user id")
+  .option("--agent <id>", "Run this specialist agent first instead of routing automatically")
+  .option("--plan", "Propose a plan for approval before running tools", false)
   .action(
     async (
       requestParts: string[],
@@ -166,6 +197,8 @@ program
         remote?: string;
         token?: string;
         user?: string;
+        agent?: string;
+        plan?: boolean;
       },
       command: Command
     ) => {
@@ -200,6 +233,9 @@ program
       }
 
       if (remote) {
+        if (options.plan) {
+          console.log(colors.warn("Plan mode is not supported in remote mode; sending without a plan."));
+        }
         const remoteSession = createRemoteSession({ baseUrl: remote, token, userId });
         let streamed = false;
         let cleanupEsc: () => void = () => {};
@@ -231,7 +267,9 @@ program
               }
             },
             handleAgentOutput,
-            controller.signal
+            controller.signal,
+            (usage) => stats.addUsage(usage),
+            options.agent
           );
           cleanupEsc();
           spinner.stop();
@@ -260,15 +298,36 @@ program
 
       let streamed = false;
       const streamRenderer = createMarkdownStreamRenderer();
+      // Planning happens before stats.startResponse(), so its usage is held back and added after the reset.
+      let planUsage: TokenUsage[] | null = null;
       const session = await createAgentSession({
         autoApprove,
         maxSteps,
         llmConfig: config.llm,
-        confirm: async (question: string) => {
+        models: config.models,
+        compactThreshold: config.agent.compactThreshold,
+        patchFuzz: config.agent.patchFuzz,
+        toolConcurrency: config.agent.toolConcurrency,
+        keepRecentTurns: config.agent.keepRecentTurns,
+        routing: config.agent.routing,
+        routingMinConfidence: config.agent.routingMinConfidence,
+        onRetry: makeRetryHandler(spinner),
+        onFallback: makeFallbackHandler(spinner),
+        onUsage: (usage) => {
+          if (planUsage) {
+            planUsage.push(usage);
+          } else {
+            stats.addUsage(usage);
+          }
+        },
+        confirm: async (question: string, preview?: string) => {
           const wasSpinning = spinner.isSpinning();
           if (wasSpinning) {
             spinner.stop();
           }
+          if (preview) {
+            console.log(colorizeDiff(preview));
+          }
           const rl = await createChatInterface();
           const answer = await rl.question(colors.prompt(question));
           rl.close();
@@ -293,7 +352,33 @@ program
         },
         onAgent: handleAgentOutput
       });
+      warnAgentLoadErrors(session);
 
+      let approvedPlan: string | undefined;
+      const heldUsage: TokenUsage[] = [];
+      if (options.plan) {
+        spinner.start();
+        planUsage = heldUsage;
+        let plan: string;
+        try {
+          plan = await session.proposePlan(request);
+        } finally {
+          planUsage = null;
+          spinner.stop();
+        }
+        const review = await reviewPlan(plan, async (question) => {
+          const rl = await createChatInterface();
+          const answer = await rl.question(question);
+          rl.close();
+          return answer;
+        });
+        await session.recordPlanDecision(review.decision, review.plan);
+        if (review.decision === "rejected") {
+          console.log(colors.warn("Plan rejected; nothing was run."));
+          return;
+        }
+        approvedPlan = review.plan;
+      }
       const controller = new AbortController();
       let cleanupEsc: () => void = () => {};
       cleanupEsc = attachEscCancel(controller, () => {
@@ -306,7 +391,12 @@ program
       try {
         stats.addInput(request);
         stats.startResponse();
-        const result = await session.runTurn(request, { signal: controller.signal });
+        heldUsage.forEach((usage) => stats.addUsage(usage));
+        const result = await session.runTurn(request, {
+          signal: controller.signal,
+          agent: options.agent,
+          plan: approvedPlan
+        });
         cleanupEsc();
         spinner.stop();
         if (streamed) {
@@ -345,6 +435,8 @@ program
   .option("--remote <url>", "Use a remote Workshop.AI server")
   .option("--token <token>", "Remote auth token")
   .option("--user <id>", "Remote user id")
+  .option("--resume <id>", "Resume a saved session by id, or \"latest\"")
+  .option("--plan", "Propose a plan for approval before running tools", false)
   .action(
     async (options: {
       autoApprove?: boolean;
@@ -353,6 +445,8 @@ program
       remote?: string;
       token?: string;
       user?: string;
+      resume?: string;
+      plan?: boolean;
     }, command: Command) => {
     try {
       const config = await loadConfig(process.cwd());
@@ -368,6 +462,8 @@ program
       const remote = options.remote;
       const token = options.token;
       const userId = options.user;
+      let planMode = Boolean(options.plan);
+      let planUsage: TokenUsage[] | null = null;
 
       const rl = await createChatInterface();
       if (checkUpdates) {
@@ -401,11 +497,30 @@ program
             autoApprove,
             maxSteps,
             llmConfig: config.llm,
-            confirm: async (question: string) => {
+            models: config.models,
+            compactThreshold: config.agent.compactThreshold,
+            patchFuzz: config.agent.patchFuzz,
+            toolConcurrency: config.agent.toolConcurrency,
+            keepRecentTurns: config.agent.keepRecentTurns,
+            routing: config.agent.routing,
+            routingMinConfidence: config.agent.routingMinConfidence,
+            onRetry: makeRetryHandler(spinner),
+            onFallback: makeFallbackHandler(spinner),
+            onUsage: (usage) => {
+              if (planUsage) {
+                planUsage.push(usage);
+              } else {
+                stats.addUsage(usage);
+              }
+            },
+            confirm: async (question: string, preview?: string) => {
               const wasSpinning = spinner.isSpinning();
               if (wasSpinning) {
                 spinner.stop();
               }
+              if (preview) {
+                console.log(colorizeDiff(preview));
+              }
               const answer = await rl.question(colors.prompt(question));
               const normalized = answer.trim().toLowerCase();
               if (wasSpinning) {
@@ -429,6 +544,19 @@ program
             onAgent: handleAgentOutput
           });
 
+      if (session) {
+        warnAgentLoadErrors(session);
+        printInstructions(session);
+      }
+
+      if (options.resume) {
+        if (session) {
+          await restoreSession(session, options.resume);
+        } else {
+          console.log(colors.warn("--resume is not supported with --remote."));
+        }
+      }
+
       let ptt: ReturnType<typeof createPushToTalk> | null = null;
       let awaitingInput = false;
       if (enablePushToTalk) {
@@ -470,7 +598,8 @@ program
         awaitingInput = true;
         const line = await rl.question(colors.prompt("> "));
         awaitingInput = false;
-        const input = line.trim();
+        let input = line.trim();
+        let selectedAgent: string | undefined;
         if (!input) {
           continue;
         }
@@ -480,64 +609,32 @@ program
             console.log(colors.warn("Usage: /research <topic>"));
             continue;
           }
-          streamRenderer.reset();
-          const wrapped = `Research: ${query}`;
-          streamState.active = false;
-          stats.addInput(wrapped);
-          stats.startResponse();
-          spinner.start();
-          let cleanupEsc: () => void = () => {};
-          try {
-            const controller = new AbortController();
-            cleanupEsc = attachEscCancel(controller, () => {
-              if (spinner.isSpinning()) {
-                spinner.stop();
-              }
-              console.log(colors.warn("Request cancelled."));
-            });
-            const response = remoteSession
-              ? await remoteSession.send(
-                  wrapped,
-                  (tokenChunk) => {
-                    if (!streamState.active) {
-                      streamState.active = true;
-                      if (spinner.isSpinning()) {
-                        spinner.stop();
-                      }
-                    }
-                    stats.addOutputChunk(tokenChunk);
-                    const rendered = streamRenderer.push(tokenChunk);
-                    if (rendered) {
-                      process.stdout.write(colors.assistant(rendered));
-                    }
-                  },
-                  handleAgentOutput,
-                  controller.signal
-                )
-              : await session!.runTurn(wrapped, { signal: controller.signal });
-            cleanupEsc();
-            spinner.stop();
-            if (streamState.active) {
-              const tail = streamRenderer.flush();
-              if (tail) {
-                process.stdout.write(colors.assistant(tail));
-              }
-              process.stdout.write("\n");
-            } else {
-              stats.addOutputChunk(response);
-              console.log(renderMarkdownToAnsi(response));
-            }
-            stats.finishResponse();
-            printStats(stats);
-          } catch (err) {
-            cleanupEsc();
-            spinner.stop();
-            if (isAbortError(err)) {
+          input = query;
+          selectedAgent = "research";
+        } else if (input === "/agent" || input.startsWith("/agent ")) {
+          const match = input.match(/^\/agent\s+(\S+)\s*([\s\S]*)$/);
+          const id = match?.[1] ?? "";
+          const message = match?.[2].trim() ?? "";
+          if (id === "off" || id === "on") {
+            if (!session) {
+              console.log(colors.warn(`/agent ${id} is not supported in remote mode.`));
               continue;
             }
-            throw err;
+            session.setRouting(id === "on");
+            console.log(colors.info(`Automatic agent routing ${id === "on" ? "enabled" : "disabled"} for this session.`));
+            continue;
           }
-          continue;
+          if (!id || !message) {
+            console.log(colors.warn("Usage: /agent <id> <message>, /agent off or /agent on"));
+            continue;
+          }
+          if (session && !getAgentById(id, session.agents)) {
+            const available = session.agents.map((agent) => agent.id).join(", ");
+            console.log(colors.error(`Unknown agent "${id}". Available agents: ${available}`));
+            continue;
+          }
+          input = message;
+          selectedAgent = id;
         }
         if (input === "/exit" || input === "/quit") {
           break;
@@ -548,6 +645,91 @@ program
           console.log(colors.info("Chat session continues. Type /exit to quit, /reset to clear context."));
           continue;
         }
+        if (input === "/sessions") {
+          await printSessions(session?.sessionId);
+          continue;
+        }
+        if (input.startsWith("/save") || input.startsWith("/load")) {
+          const [commandName, ...rest] = input.split(/\s+/);
+          const arg = rest.join(" ").trim();
+          if (!session) {
+            console.log(colors.warn(`${commandName} is not supported in remote mode.`));
+            continue;
+          }
+          try {
+            if (commandName === "/save") {
+              const id = await saveSessionSnapshot(process.cwd(), session.getMessages(), arg || undefined);
+              console.log(colors.success(`Session saved as ${id}. Resume with /load ${id}.`));
+            } else if (commandName === "/load") {
+              if (!arg) {
+                console.log(colors.warn("Usage: /load <id|latest>"));
+                continue;
+              }
+              await restoreSession(session, arg);
+              stats.reset();
+            } else {
+              console.log(colors.warn("Usage: /save [name] or /load <id|latest>"));
+            }
+          } catch (err) {
+            console.error(colors.error((err as Error).message));
+          }
+          continue;
+        }
+        if (input === "/model" || input.startsWith("/model ")) {
+          const name = input.slice("/model".length).trim();
+          try {
+            if (!name) {
+              if (remoteSession) {
+                const listing = await remoteSession.listModels();
+                printModels(listing.models, listing.current);
+              } else {
+                const current = session!.getModel();
+                console.log(colors.info(`Current model: ${current}`));
+                printModels(await session!.listModels(), current);
+              }
+            } else if (remoteSession) {
+              console.log(colors.warn("/model <name> is not supported in remote mode."));
+            } else {
+              await session!.setModel(name);
+              console.log(colors.success(`Switched to ${session!.getModel()}. Conversation history kept.`));
+            }
+          } catch (err) {
+            console.error(colors.error((err as Error).message));
+          }
+          continue;
+        }
+        if (input === "/agents") {
+          if (!session) {
+            console.log(colors.warn("/agents is not supported in remote mode."));
+            continue;
+          }
+          printAgents(session);
+          continue;
+        }
+        if (input === "/checkpoints") {
+          if (!session) {
+            console.log(colors.warn("/checkpoints is not supported in remote mode."));
+            continue;
+          }
+          printCheckpoints(await session.listCheckpoints());
+          continue;
+        }
+        if (input === "/undo" || input === "/restore" || input.startsWith("/restore ")) {
+          const checkpointId = input.startsWith("/restore") ? input.slice("/restore".length).trim() : undefined;
+          if (checkpointId === "") {
+            console.log(colors.warn("Usage: /restore <checkpoint id> (see /checkpoints)"));
+            continue;
+          }
+          try {
+            const restored = remoteSession
+              ? await remoteSession.undo(checkpointId)
+              : await session!.undo(checkpointId);
+            printRestored(restored);
+          } catch (err) {
+            console.error(colors.error((err as Error).message));
+          }
+          continue;
+        }
         if (input === "/version") {
           console.log(colors.info(formatVersionBanner(versionInfo)));
           continue;
@@ -580,12 +762,47 @@ program
           }
           stats.reset();
           console.log(colors.info("Session reset."));
+          if (session) {
+            printInstructions(session);
+          }
+          continue;
+        }
+        if (input === "/plan" || input === "/plan on" || input === "/plan off") {
+          planMode = input === "/plan" ? !planMode : input === "/plan on";
+          console.log(colors.info(`Plan mode ${planMode ? "on" : "off"}.`));
           continue;
         }
+        let approvedPlan: string | undefined;
+        const heldUsage: TokenUsage[] = [];
+        if (planMode && remoteSession) {
+          console.log(colors.warn("Plan mode is not supported in remote mode; sending without a plan."));
+        } else if (planMode && session) {
+          spinner.start();
+          planUsage = heldUsage;
+          let plan: string;
+          try {
+            plan = await session.proposePlan(input);
+          } catch (err) {
+            planUsage = null;
+            spinner.stop();
+            console.error(colors.error((err as Error).message));
+            continue;
+          }
+          planUsage = null;
+          spinner.stop();
+          const review = await reviewPlan(plan, (question) => rl.question(question));
+          await session.recordPlanDecision(review.decision, review.plan);
+          if (review.decision === "rejected") {
+            console.log(colors.warn("Plan rejected; nothing was run."));
+            continue;
+          }
+          approvedPlan = review.plan;
+        }
         streamState.active = false;
         streamRenderer.reset();
         stats.addInput(input);
         stats.startResponse();
+        heldUsage.forEach((usage) => stats.addUsage(usage));
         spinner.start();
         let cleanupEsc: () => void = () => {};
         try {
@@ -613,9 +830,11 @@ program
                   }
                 },
                 handleAgentOutput,
-                controller.signal
+                controller.signal,
+                (usage) => stats.addUsage(usage),
+                selectedAgent
               )
-            : await session!.runTurn(input, { signal: controller.signal });
+            : await session!.runTurn(input, { signal: controller.signal, agent: selectedAgent, plan: approvedPlan });
           cleanupEsc();
           spinner.stop();
           if (streamState.active) {
@@ -814,12 +1033,13 @@ async function autoUpdateCountdown(behind: number, branch: string, seconds: numb
 
 function printStats(stats: ConversationStats): void {
   const snapshot = stats.snapshot();
+  const approx = snapshot.estimated ? "~" : "=";
   const parts = [
-    `in~${snapshot.inputTokens}`,
-    `out~${snapshot.outputTokens}`,
-    `total~${snapshot.totalTokens}`,
-    `out/s~${snapshot.outputTokensPerSecond.toFixed(1)}`,
-    `last/s~${snapshot.lastResponseTokensPerSecond.toFixed(1)}`,
+    `in${approx}${snapshot.inputTokens}`,
+    `out${approx}${snapshot.outputTokens}`,
+    `total${approx}${snapshot.totalTokens}`,
+    `out/s${approx}${snapshot.outputTokensPerSecond.toFixed(1)}`,
+    `last/s${approx}${snapshot.lastResponseTokensPerSecond.toFixed(1)}`,
     `elapsed~${snapshot.elapsedSeconds.toFixed(1)}s`
   ];
   console.log(colors.dim(`Stats: ${parts.join(" | ")}`));
@@ -870,6 +1090,20 @@ function isAbortError(err: unknown): boolean {
   return typeof anyErr.message === "string" && anyErr.message.toLowerCase().includes("aborted");
 }
 
+function makeRetryHandler(spinner: ReturnType<typeof createSpinner>) {
+  return (event: RetryEvent) => {
+    const seconds = Math.max(1, Math.ceil(event.delayMs / 1000));
+    const label = event.status ? `Server busy (${event.status})` : "Model loading";
+    spinner.setText(`${label}, retrying in ${seconds}s (${event.attempt}/${event.maxRetries})...`);
+  };
+}
+
+function makeFallbackHandler(spinner: ReturnType<typeof createSpinner>) {
+  return (event: FallbackEvent) => {
+    spinner.setText(`Model "${event.from}" failed, falling back to "${event.to}"...`);
+  };
+}
+
 function makeAgentOutputHandler(spinner: ReturnType<typeof createSpinner>) {
   return (event: { name: string; content: string }) => {
     const wasSpinning = spinner.isSpinning();
@@ -898,6 +1132,124 @@ function makeAgentOutputHandler(spinner: ReturnType<typeof createSpinner>) {
   };
 }
 
+async function restoreSession(session: AgentSession, ref: string): Promise<void> {
+  const filePath = await resolveSessionPath(process.cwd(), ref, { exclude: session.logFilePath });
+  const history = await loadSessionHistory(filePath);
+  const id = path.basename(filePath, ".jsonl");
+  await session.restore(history, id);
+  const count = history.filter((message) => message.role !== "system").length;
+  console.log(colors.info(`Resumed session ${id} (${count} message${count === 1 ? "" : "s"}).`));
+}
+
+function printAgents(session: AgentSession): void {
+  for (const agent of session.agents) {
+    const source = agent.source ? path.relative(process.cwd(), agent.source) : "built-in";
+    const tools = agent.toolNames && agent.toolNames.length > 0 ? agent.toolNames.join(", ") : "no tools";
+    console.log(colors.info(`${agent.id} - ${agent.name}`) + colors.dim(` (${source}; ${tools})`));
+    if (agent.triggers && agent.triggers.length > 0) {
+      console.log(colors.dim(`    triggers: ${agent.triggers.join(", ")}`));
+    }
+  }
+  warnAgentLoadErrors(session);
+}
+
+function printCheckpoints(checkpoints: CheckpointInfo[]): void {
+  if (checkpoints.length === 0) {
+    console.log(colors.info("No checkpoints yet. Write tools save one per turn before changing files."));
+    return;
+  }
+  for (const checkpoint of checkpoints) {
+    const files = checkpoint.files
+      .map((file) => (file.dir ? `${file.path}/` : file.existed ? file.path : `${file.path} (new)`))
+      .join(", ");
+    console.log(colors.info(checkpoint.id) + colors.dim(` ${checkpoint.label}`));
+    console.log(colors.dim(`    ${files}`));
+  }
+}
+
+function printRestored(restored: CheckpointInfo[]): void {
+  const files = new Set(restored.flatMap((checkpoint) => checkpoint.files.map((file) => file.path)));
+  console.log(
+    colors.success(`Reverted ${restored.length} checkpoint(s); restored ${files.size} file(s): ${[...files].join(", ")}`)
+  );
+}
+
+async function reviewPlan(
+  plan: string,
+  ask: (question: string) => Promise<string>
+): Promise<{ decision: PlanDecision; plan: string }> {
+  console.log(colors.info("Proposed plan:"));
+  console.log(renderMarkdownToAnsi(plan));
+  for (;;) {
+    const answer = (await ask(colors.prompt("Run this plan? (y)es / (e)dit / (N)o "))).trim().toLowerCase();
+    if (answer === "y" || answer === "yes") {
+      return { decision: "approved", plan };
+    }
+    if (answer === "e" || answer === "edit") {
+      console.log(colors.info("Enter the revised plan, then an empty line to finish."));
+      const lines: string[] = [];
+      for (;;) {
+        const line = await ask(colors.prompt("| "));
+        if (!line.trim()) {
+          break;
+        }
+        lines.push(line);
+      }
+      if (lines.length === 0) {
+        console.log(colors.warn("Plan unchanged."));
+        continue;
+      }
+      return { decision: "edited", plan: lines.join("\n") };
+    }
+    return { decision: "rejected", plan };
+  }
+}
+
+function printInstructions(session: AgentSession): void {
+  for (const file of session.getInstructions()) {
+    console.log(colors.info(`Loaded ${file.scope} instructions from ${file.path}`));
+  }
+}
+
+function warnAgentLoadErrors(session: AgentSession): void {
+  for (const error of session.agentLoadErrors) {
+    console.warn(colors.warn(`Skipped agent ${path.relative(process.cwd(), error.file)}: ${error.message}`));
+  }
+}
+
+function printModels(models: ModelInfo[], current: string): void {
+  if (models.length === 0) {
+    console.log(colors.info("No models reported by the endpoint."));
+    return;
+  }
+  for (const model of models) {
+    const marker = model.name === current ? "*" : " ";
+    const details = [
+      model.parameterSize,
+      model.quantization,
+      model.size ? `${(model.size / 1024 ** 3).toFixed(1)} GB` : undefined
+    ].filter(Boolean);
+    console.log(colors.info(`${marker} ${model.name}`) + colors.dim(details.length > 0 ? ` (${details.join(", ")})` : ""));
+  }
+}
+
+async function printSessions(currentId?: string): Promise<void> {
+  const sessions = await listSessions(process.cwd());
+  const visible = sessions.filter((session) => session.messageCount > 0 || session.id === currentId).slice(0, 20);
+  if (visible.length === 0) {
+    console.log(colors.info("No saved sessions."));
+    return;
+  }
+  for (const session of visible) {
+    const marker = session.id === currentId ? "*" : " ";
+    const preview = session.preview ? ` - ${session.preview}` : "";
+    console.log(
+      colors.info(`${marker} ${session.id} (${session.messageCount} msgs, ${session.updated.toLocaleString()})`) +
+        colors.dim(preview)
+    );
+  }
+}
+
 function printBanner(): void {
   console.log(colors.info(asciiArt));
   console.log(colors.info(formatVersionBanner(versionInfo)));
@@ -0,0 +1,119 @@
+import {
+  OllamaClient,
+  type ChatClient,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type ChatParams
+} from "./ollamaClient.js";
+import type { RetryEvent } from "./retry.js";
+import type { LlmConfig } from "../util/config.js";
+
+export interface FallbackEvent {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface NamedClient {
+  name: string;
+  client: ChatClient;
+}
+
+const FAILURE_COOLDOWN_MS = 60000;
+
+export class FallbackClient implements ChatClient {
+  private entries: NamedClient[];
+  private failedAt = new Map<string, number>();
+  private onFallback?: (event: FallbackEvent) => void;
+
+  constructor(entries: NamedClient[], options?: { onFallback?: (event: FallbackEvent) => void }) {
+    if (entries.length === 0) {
+      throw new Error("FallbackClient needs at least one client");
+    }
+    this.entries = entries;
+    this.onFallback = options?.onFallback;
+  }
+
+  async chat(params: ChatParams): Promise<ChatCompletionResponse> {
+    const ordered = this.ordered();
+    let lastError: unknown;
+    for (let index = 0; index < ordered.length; index += 1) {
+      const entry = ordered[index];
+      try {
+        const response = await entry.client.chat(params);
+        this.failedAt.delete(entry.name);
+        return response;
+      } catch (err) {
+        lastError = err;
+        if (!this.shouldFallBack(err, params, ordered, index)) {
+          throw err;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  async *chatStream(params: ChatParams): AsyncGenerator<ChatCompletionChunk> {
+    const ordered = this.ordered();
+    let lastError: unknown;
+    for (let index = 0; index < ordered.length; index += 1) {
+      const entry = ordered[index];
+      let started = false;
+      try {
+        for await (const chunk of entry.client.chatStream(params)) {
+          started = true;
+          yield chunk;
+        }
+        this.failedAt.delete(entry.name);
+        return;
+      } catch (err) {
+        lastError = err;
+        // Tokens already reached the caller, so switching endpoints would duplicate output.
+        if (started || !this.shouldFallBack(err, params, ordered, index)) {
+          throw err;
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private shouldFallBack(err: unknown, params: ChatParams, ordered: NamedClient[], index: number): boolean {
+    if (params.signal?.aborted) {
+      return false;
+    }
+    this.failedAt.set(ordered[index].name, Date.now());
+    const next = ordered[index + 1];
+    if (!next) {
+      return false;
+    }
+    this.onFallback?.({ from: ordered[index].name, to: next.name, reason: (err as Error).message });
+    return true;
+  }
+
+  // Endpoints that failed recently are tried last until their cooldown expires.
+  private ordered(): NamedClient[] {
+    const now = Date.now();
+    const healthy = this.entries.filter((entry) => !this.isCoolingDown(entry.name, now));
+    const cooling = this.entries.filter((entry) => this.isCoolingDown(entry.name, now));
+    return [...healthy, ...cooling];
+  }
+
+  private isCoolingDown(name: string, now: number): boolean {
+    const failed = this.failedAt.get(name);
+    return failed !== undefined && now - failed < FAILURE_COOLDOWN_MS;
+  }
+}
+
+export function createChatClient(
+  profiles: Array<{ name: string; config: LlmConfig }>,
+  options?: { onRetry?: (event: RetryEvent) => void; onFallback?: (event: FallbackEvent) => void }
+): ChatClient {
+  const entries = profiles.map((profile) => ({
+    name: profile.name,
+    client: new OllamaClient({ ...profile.config, onRetry: options?.onRetry })
+  }));
+  if (entries.length === 1) {
+    return entries[0].client;
+  }
+  return new FallbackClient(entries, { onFallback: options?.onFallback });
+}
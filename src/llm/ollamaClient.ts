@@ -1,3 +1,16 @@
+import {
+  buildNativeChatBody,
+  fromNativeChunk,
+  fromNativeResponse,
+  fromNativeTags,
+  toNativeBaseUrl,
+  type NativeChatResponse,
+  type NativeTagsResponse,
+  type NativeGenerationOptions
+} from "./ollamaNative.js";
+import { getJson, LlmRequestError, postJson, withRetry, type RequestPolicy } from "./retry.js";
+import type { LlmProvider } from "../util/config.js";
+
 export type Role = "system" | "user" | "assistant" | "tool";
 
 export interface ChatMessage {
@@ -35,6 +48,12 @@ export interface ToolDefinition {
   };
 }
 
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+}
+
 export interface ChatCompletionResponse {
   id: string;
   choices: Array<{
@@ -42,6 +61,7 @@ export interface ChatCompletionResponse {
     message: ChatMessage;
     finish_reason: string | null;
   }>;
+  usage?: CompletionUsage;
 }
 
 export interface ChatCompletionChunk {
@@ -55,109 +75,99 @@ export interface ChatCompletionChunk {
     };
     finish_reason?: string | null;
   }>;
+  usage?: CompletionUsage | null;
 }
 
-export interface OllamaClientOptions {
+export interface ModelInfo {
+  name: string;
+  size?: number;
+  modifiedAt?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+export interface OllamaClientOptions extends NativeGenerationOptions, RequestPolicy {
   baseUrl: string;
   apiKey: string;
   model: string;
+  provider?: LlmProvider;
+  contextWindow?: number;
+}
+
+export interface ChatParams {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: "auto" | "none";
+  temperature?: number;
+  signal?: AbortSignal;
 }
 
-export class OllamaClient {
+export interface ChatClient {
+  chat(params: ChatParams): Promise<ChatCompletionResponse>;
+  chatStream(params: ChatParams): AsyncGenerator<ChatCompletionChunk>;
+}
+
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_FIRST_TOKEN_TIMEOUT_MS = 90000;
+const DEFAULT_MAX_RETRIES = 2;
+
+export class OllamaClient implements ChatClient {
   private baseUrl: string;
   private apiKey: string;
   private model: string;
+  private provider: LlmProvider;
+  private generation: NativeGenerationOptions;
+  private policy: RequestPolicy;
 
   constructor(options: OllamaClientOptions) {
     this.baseUrl = options.baseUrl.replace(/\/$/, "");
     this.apiKey = options.apiKey;
     this.model = options.model;
-  }
-
-  async chat(params: {
-    messages: ChatMessage[];
-    tools?: ToolDefinition[];
-    toolChoice?: "auto" | "none";
-    temperature?: number;
-    signal?: AbortSignal;
-  }): Promise<ChatCompletionResponse> {
-    const hasTools = Array.isArray(params.tools) && params.tools.length > 0;
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: params.messages,
-      temperature: params.temperature ?? 0
+    this.provider = options.provider ?? "ollama";
+    this.generation = {
+      numCtx: options.numCtx ?? options.contextWindow,
+      numPredict: options.numPredict,
+      keepAlive: options.keepAlive,
+      format: options.format
+    };
+    this.policy = {
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      firstTokenTimeoutMs: options.firstTokenTimeoutMs ?? DEFAULT_FIRST_TOKEN_TIMEOUT_MS,
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryBaseDelayMs: options.retryBaseDelayMs,
+      onRetry: options.onRetry
     };
-    if (hasTools) {
-      body.tools = params.tools;
-      body.tool_choice = params.toolChoice ?? "auto";
-    }
-
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.apiKey}`
-      },
-      signal: params.signal,
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`LLM error ${response.status}: ${text}`);
-    }
-
-    return (await response.json()) as ChatCompletionResponse;
   }
 
-  async *chatStream(params: {
-    messages: ChatMessage[];
-    tools?: ToolDefinition[];
-    toolChoice?: "auto" | "none";
-    temperature?: number;
-    signal?: AbortSignal;
-  }): AsyncGenerator<ChatCompletionChunk> {
-    const hasTools = Array.isArray(params.tools) && params.tools.length > 0;
-    const body: Record<string, unknown> = {
-      model: this.model,
-      messages: params.messages,
-      temperature: params.temperature ?? 0,
-      stream: true
-    };
-    if (hasTools) {
-      body.tools = params.tools;
-      body.tool_choice = params.toolChoice ?? "auto";
-    }
+  async chat(params: ChatParams): Promise<ChatCompletionResponse> {
+    const native = this.provider === "ollama-native";
+    const url = native ? `${toNativeBaseUrl(this.baseUrl)}/api/chat` : `${this.baseUrl}/chat/completions`;
+    const body = native ? this.buildNativeBody(params, false) : this.buildCompatBody(params, false);
 
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.apiKey}`
-      },
-      signal: params.signal,
-      body: JSON.stringify(body)
+    return withRetry(this.policy, params.signal, this.policy.timeoutMs, async (signal) => {
+      const response = await postJson(url, this.headers(), body, signal);
+      if (!native) {
+        return (await response.json()) as ChatCompletionResponse;
+      }
+      const data = (await response.json()) as NativeChatResponse;
+      if (data.error) {
+        throw new Error(`LLM error: ${data.error}`);
+      }
+      return fromNativeResponse(data);
     });
+  }
 
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`LLM error ${response.status}: ${text}`);
-    }
-
-    if (!response.body) {
-      throw new Error("Streaming response body is unavailable");
+  async *chatStream(params: ChatParams): AsyncGenerator<ChatCompletionChunk> {
+    if (this.provider === "ollama-native") {
+      yield* this.chatStreamNative(params);
+      return;
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
+    const body = this.buildCompatBody(params, true);
     let buffer = "";
 
-    while (true) {
-      const { value, done } = await reader.read();
-      if (done) {
-        break;
-      }
-      buffer += decoder.decode(value, { stream: true });
+    for await (const text of this.openStream(`${this.baseUrl}/chat/completions`, body, params.signal)) {
+      buffer += text;
       const lines = buffer.split(/\r?\n/);
       buffer = lines.pop() ?? "";
 
@@ -191,4 +201,169 @@ export class OllamaClient {
       }
     }
   }
+
+  async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+    const native = this.provider === "ollama-native";
+    const url = native ? `${toNativeBaseUrl(this.baseUrl)}/api/tags` : `${this.baseUrl}/models`;
+
+    const models = await withRetry(this.policy, signal, this.policy.timeoutMs, async (attemptSignal) => {
+      const response = await getJson(url, this.headers(), attemptSignal);
+      if (native) {
+        return fromNativeTags((await response.json()) as NativeTagsResponse);
+      }
+      const data = (await response.json()) as { data?: Array<{ id: string; created?: number }> };
+      return (data.data ?? []).map((model) => ({
+        name: model.id,
+        modifiedAt: model.created ? new Date(model.created * 1000).toISOString() : undefined
+      }));
+    });
+    return models.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json"
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async *openStream(url: string, body: Record<string, unknown>, signal?: AbortSignal): AsyncGenerator<string> {
+    // The first-token timeout covers connecting and waiting for the first chunk, which is
+    // where a cold model load shows up; once tokens flow the stream is never retried.
+    const opened = await withRetry(this.policy, signal, this.policy.firstTokenTimeoutMs, async (attemptSignal) => {
+      const response = await postJson(url, this.headers(), body, attemptSignal);
+      if (!response.body) {
+        throw new Error("Streaming response body is unavailable");
+      }
+      const reader = response.body.getReader();
+      const first = await reader.read();
+      return { reader, first };
+    });
+
+    // Cancelling the reader ends a pending read; the abort reason is rethrown below.
+    const onAbort = () => {
+      opened.reader.cancel(signal?.reason).catch(() => {});
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const decoder = new TextDecoder();
+    let result = opened.first;
+    try {
+      while (!result.done) {
+        yield decoder.decode(result.value, { stream: true });
+        result = await readWithIdleTimeout(opened.reader, this.policy.timeoutMs);
+      }
+      signal?.throwIfAborted();
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      if (!result.done) {
+        opened.reader.cancel().catch(() => {});
+      }
+    }
+  }
+
+  private buildCompatBody(params: ChatParams, stream: boolean): Record<string, unknown> {
+    const hasTools = Array.isArray(params.tools) && params.tools.length > 0;
+    const body: Record<string, unknown> = {
+      model: this.model,
+      messages: params.messages,
+      temperature: params.temperature ?? 0
+    };
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+    if (hasTools) {
+      body.tools = params.tools;
+      body.tool_choice = params.toolChoice ?? "auto";
+    }
+    if (this.generation.numPredict !== undefined) {
+      body.max_tokens = this.generation.numPredict;
+    }
+    if (this.generation.format === "json") {
+      body.response_format = { type: "json_object" };
+    }
+    return body;
+  }
+
+  private buildNativeBody(params: ChatParams, stream: boolean): Record<string, unknown> {
+    return buildNativeChatBody({
+      model: this.model,
+      messages: params.messages,
+      tools: params.tools,
+      toolChoice: params.toolChoice,
+      temperature: params.temperature,
+      stream,
+      generation: this.generation
+    });
+  }
+
+  private async *chatStreamNative(params: ChatParams): AsyncGenerator<ChatCompletionChunk> {
+    const body = this.buildNativeBody(params, true);
+    let buffer = "";
+    let toolCallCount = 0;
+
+    const toChunk = (line: string): ChatCompletionChunk | null => {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        return null;
+      }
+      let data: NativeChatResponse;
+      try {
+        data = JSON.parse(trimmed) as NativeChatResponse;
+      } catch {
+        return null;
+      }
+      if (data.error) {
+        throw new Error(`LLM error: ${data.error}`);
+      }
+      const chunk = fromNativeChunk(data, toolCallCount);
+      toolCallCount += data.message?.tool_calls?.length ?? 0;
+      return chunk;
+    };
+
+    for await (const text of this.openStream(`${toNativeBaseUrl(this.baseUrl)}/api/chat`, body, params.signal)) {
+      buffer += text;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const chunk = toChunk(line);
+        if (chunk) {
+          yield chunk;
+        }
+      }
+    }
+
+    const trailing = toChunk(buffer);
+    if (trailing) {
+      yield trailing;
+    }
+  }
+}
+
+// A stream that stops sending data mid-response is cancelled after timeoutMs without a chunk.
+async function readWithIdleTimeout<T>(
+  reader: ReadableStreamDefaultReader<T>,
+  timeoutMs: number | undefined
+): Promise<ReadableStreamReadResult<T>> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return reader.read();
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const stalled = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      // Reject before cancelling: cancel() settles the pending read, which would otherwise win the race.
+      reject(
+        new LlmRequestError(`LLM stream stalled: no data for ${Math.round(timeoutMs / 1000)}s`, { retryable: false })
+      );
+      reader.cancel().catch(() => {});
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([reader.read(), stalled]);
+  } finally {
+    clearTimeout(timer);
+  }
 }
@@ -0,0 +1,223 @@
+import { randomUUID } from "node:crypto";
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  ChatMessage,
+  CompletionUsage,
+  ModelInfo,
+  ToolCall,
+  ToolDefinition
+} from "./ollamaClient.js";
+
+export interface NativeGenerationOptions {
+  numCtx?: number;
+  numPredict?: number;
+  keepAlive?: string;
+  format?: string;
+}
+
+interface NativeToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown> | string;
+  };
+}
+
+interface NativeMessage {
+  role: string;
+  content: string;
+  tool_calls?: NativeToolCall[];
+  tool_name?: string;
+}
+
+export interface NativeChatResponse {
+  model?: string;
+  created_at?: string;
+  message?: NativeMessage;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+export interface NativeTagsResponse {
+  models?: Array<{
+    name: string;
+    size?: number;
+    modified_at?: string;
+    details?: {
+      parameter_size?: string;
+      quantization_level?: string;
+    };
+  }>;
+}
+
+export function toNativeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/$/, "").replace(/\/v1$/, "");
+}
+
+export function buildNativeChatBody(params: {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice?: "auto" | "none";
+  temperature?: number;
+  stream: boolean;
+  generation: NativeGenerationOptions;
+}): Record<string, unknown> {
+  const options: Record<string, unknown> = {
+    temperature: params.temperature ?? 0
+  };
+  if (params.generation.numCtx !== undefined) {
+    options.num_ctx = params.generation.numCtx;
+  }
+  if (params.generation.numPredict !== undefined) {
+    options.num_predict = params.generation.numPredict;
+  }
+
+  const body: Record<string, unknown> = {
+    model: params.model,
+    messages: toNativeMessages(params.messages),
+    stream: params.stream,
+    options
+  };
+  // Ollama has no tool_choice; omitting the tools is the only way to say "none".
+  if (params.tools && params.tools.length > 0 && params.toolChoice !== "none") {
+    body.tools = params.tools;
+  }
+  if (params.generation.keepAlive !== undefined) {
+    body.keep_alive = normalizeKeepAlive(params.generation.keepAlive);
+  }
+  if (params.generation.format) {
+    body.format = params.generation.format;
+  }
+  return body;
+}
+
+export function fromNativeResponse(data: NativeChatResponse): ChatCompletionResponse {
+  const message: ChatMessage = {
+    role: "assistant",
+    content: data.message?.content ? data.message.content : null
+  };
+  const toolCalls = fromNativeToolCalls(data.message?.tool_calls);
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  return {
+    id: `ollama-${data.created_at ?? Date.now()}`,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: toolCalls.length > 0 ? "tool_calls" : data.done_reason ?? "stop"
+      }
+    ],
+    usage: toUsage(data)
+  };
+}
+
+export function fromNativeChunk(data: NativeChatResponse, toolCallOffset: number): ChatCompletionChunk {
+  const toolCalls = fromNativeToolCalls(data.message?.tool_calls);
+  const delta: ChatCompletionChunk["choices"][number]["delta"] = {};
+  if (data.message?.content) {
+    delta.content = data.message.content;
+  }
+  if (toolCalls.length > 0) {
+    delta.tool_calls = toolCalls.map((call, index) => ({
+      index: toolCallOffset + index,
+      id: call.id,
+      type: "function",
+      function: { name: call.function.name, arguments: call.function.arguments }
+    }));
+  }
+  return {
+    id: `ollama-${data.created_at ?? Date.now()}`,
+    choices: [
+      {
+        index: 0,
+        delta,
+        finish_reason: data.done ? data.done_reason ?? "stop" : null
+      }
+    ],
+    usage: data.done ? toUsage(data) : undefined
+  };
+}
+
+export function fromNativeTags(data: NativeTagsResponse): ModelInfo[] {
+  return (data.models ?? []).map((model) => ({
+    name: model.name,
+    size: model.size,
+    modifiedAt: model.modified_at,
+    parameterSize: model.details?.parameter_size,
+    quantization: model.details?.quantization_level
+  }));
+}
+
+function toUsage(data: NativeChatResponse): CompletionUsage | undefined {
+  if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+    return undefined;
+  }
+  const prompt = data.prompt_eval_count ?? 0;
+  const completion = data.eval_count ?? 0;
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+}
+
+function toNativeMessages(messages: ChatMessage[]): NativeMessage[] {
+  const toolNames = new Map<string, string>();
+  return messages.map((message) => {
+    const native: NativeMessage = {
+      role: message.role,
+      content: message.content ?? ""
+    };
+    if (message.tool_calls && message.tool_calls.length > 0) {
+      native.tool_calls = message.tool_calls.map((call) => {
+        toolNames.set(call.id, call.function.name);
+        return {
+          function: {
+            name: call.function.name,
+            arguments: parseArgumentsObject(call.function.arguments)
+          }
+        };
+      });
+    }
+    if (message.role === "tool" && message.tool_call_id) {
+      const name = toolNames.get(message.tool_call_id);
+      if (name) {
+        native.tool_name = name;
+      }
+    }
+    return native;
+  });
+}
+
+function fromNativeToolCalls(calls: NativeToolCall[] | undefined): ToolCall[] {
+  if (!calls || calls.length === 0) {
+    return [];
+  }
+  return calls.map((call) => ({
+    id: `call_${randomUUID()}`,
+    type: "function",
+    function: {
+      name: call.function.name,
+      arguments:
+        typeof call.function.arguments === "string"
+          ? call.function.arguments
+          : JSON.stringify(call.function.arguments ?? {})
+    }
+  }));
+}
+
+function parseArgumentsObject(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function normalizeKeepAlive(value: string): string | number {
+  const numeric = Number(value);
+  return value.trim() !== "" && Number.isFinite(numeric) ? numeric : value;
+}
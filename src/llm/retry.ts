@@ -0,0 +1,161 @@
+export interface RetryEvent {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+  status?: number;
+}
+
+export interface RequestPolicy {
+  timeoutMs?: number;
+  firstTokenTimeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export class LlmRequestError extends Error {
+  status?: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; retryable: boolean; retryAfterMs?: number }) {
+    super(message);
+    this.name = "LlmRequestError";
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal
+): Promise<Response> {
+  return sendRequest(url, { method: "POST", headers, body: JSON.stringify(body) }, signal);
+}
+
+export async function getJson(url: string, headers: Record<string, string>, signal: AbortSignal): Promise<Response> {
+  return sendRequest(url, { method: "GET", headers }, signal);
+}
+
+async function sendRequest(url: string, init: RequestInit, signal: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal });
+  } catch (err) {
+    if (signal.aborted) {
+      throw err;
+    }
+    const cause = (err as { cause?: { code?: string } }).cause?.code;
+    throw new LlmRequestError(`LLM connection failed: ${cause ?? (err as Error).message}`, { retryable: true });
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new LlmRequestError(`LLM error ${response.status}: ${text}`, {
+      status: response.status,
+      retryable,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after"))
+    });
+  }
+  return response;
+}
+
+export async function withRetry<T>(
+  policy: RequestPolicy,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const maxRetries = Math.max(0, policy.maxRetries ?? 0);
+  const baseDelay = policy.retryBaseDelayMs ?? 1000;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+    let timedOut = false;
+    const timer =
+      timeoutMs && timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : null;
+
+    try {
+      return await run(controller.signal);
+    } catch (err) {
+      if (signal?.aborted) {
+        throw err;
+      }
+      const error = timedOut
+        ? new LlmRequestError(`LLM request timed out after ${Math.round((timeoutMs ?? 0) / 1000)}s`, { retryable: true })
+        : err;
+      if (!(error instanceof LlmRequestError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+      const delayMs = Math.min(
+        MAX_RETRY_DELAY_MS,
+        error.retryAfterMs ?? baseDelay * 2 ** attempt + Math.floor(Math.random() * baseDelay * 0.25)
+      );
+      policy.onRetry?.({
+        attempt: attempt + 1,
+        maxRetries,
+        delayMs,
+        reason: error.message,
+        status: error.status
+      });
+      await sleep(delayMs, signal);
+    } finally {
+      // Streams watch the caller's signal themselves once they are open (see OllamaClient.openStream).
+      signal?.removeEventListener("abort", onAbort);
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (Number.isFinite(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error("aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error("aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -2,9 +2,11 @@ import http from "node:http";
 import { randomUUID } from "node:crypto";
 import path from "node:path";
 import { createAgentSession, type AgentSession } from "../agent/loop.js";
+import { getAgentById } from "../agent/agents.js";
 import { ensureWorkspaceRoot } from "../util/sandboxPath.js";
 import { estimateTokens } from "../util/stats.js";
-import type { LlmConfig } from "../util/config.js";
+import { OllamaClient } from "../llm/ollamaClient.js";
+import { DEFAULT_CONFIG, resolveRoleProfiles, type LlmConfig, type ModelsConfig, type RoutingMode } from "../util/config.js";
 
 export interface ServerOptions {
   host: string;
@@ -14,6 +16,13 @@ export interface ServerOptions {
   autoApprove: boolean;
   baseDir: string;
   llmConfig?: LlmConfig;
+  models?: ModelsConfig;
+  compactThreshold?: number;
+  patchFuzz?: number;
+  toolConcurrency?: number;
+  keepRecentTurns?: number;
+  routing?: RoutingMode;
+  routingMinConfidence?: number;
 }
 
 interface SessionRecord {
@@ -44,12 +53,30 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
         }
       }
 
+      if (method === "GET" && url.pathname === "/models") {
+        const sessionId = url.searchParams.get("sessionId");
+        if (sessionId) {
+          const record = sessions.get(sessionId);
+          if (!record) {
+            return sendJson(res, 404, { error: "Session not found" });
+          }
+          const models = await record.session.listModels();
+          return sendJson(res, 200, { current: record.session.getModel(), models });
+        }
+        const primary = resolveRoleProfiles(options.llmConfig ?? DEFAULT_CONFIG.llm, options.models, "main")[0];
+        const models = await new OllamaClient(primary.config).listModels();
+        return sendJson(res, 200, { current: primary.config.model, models });
+      }
+
       if (method === "POST" && url.pathname === "/session") {
         const body = await readJson(req);
         const userId = sanitizeUserId(body.userId ?? req.headers["x-user-id"] ?? "default");
-        const record = await createSessionRecord(options, userId);
+        if (body.model !== undefined && (typeof body.model !== "string" || !body.model.trim())) {
+          return sendJson(res, 400, { error: "model must be a non-empty string" });
+        }
+        const record = await createSessionRecord(options, userId, body.model?.trim());
         sessions.set(record.id, record);
-        return sendJson(res, 200, { sessionId: record.id });
+        return sendJson(res, 200, { sessionId: record.id, model: record.session.getModel() });
       }
 
       if (method === "POST" && url.pathname === "/reset") {
@@ -63,12 +90,38 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
         return sendJson(res, 200, { ok: true });
       }
 
+      if (method === "POST" && url.pathname === "/undo") {
+        const body = await readJson(req);
+        const sessionId = body.sessionId;
+        if (!sessionId || !sessions.has(sessionId)) {
+          return sendJson(res, 404, { error: "Session not found" });
+        }
+        if (body.checkpoint !== undefined && (typeof body.checkpoint !== "string" || !body.checkpoint.trim())) {
+          return sendJson(res, 400, { error: "checkpoint must be a non-empty string" });
+        }
+        const record = sessions.get(sessionId)!;
+        if (record.busy) {
+          return sendJson(res, 409, { error: "Session is busy" });
+        }
+        try {
+          const restored = await record.session.undo(body.checkpoint?.trim());
+          console.log(`Undo | user=${record.userId} | session=${sessionId} | checkpoints=${restored.length}`);
+          return sendJson(res, 200, { restored: restored.map(({ workspace: _workspace, ...checkpoint }) => checkpoint) });
+        } catch (err) {
+          return sendJson(res, 404, { error: (err as Error).message });
+        }
+      }
+
       if (method === "POST" && url.pathname === "/chat") {
         const body = await readJson(req);
         const message = body.message;
         if (!message || typeof message !== "string") {
           return sendJson(res, 400, { error: "Missing message" });
         }
+        const agentId = body.agent;
+        if (agentId !== undefined && (typeof agentId !== "string" || !agentId.trim())) {
+          return sendJson(res, 400, { error: "agent must be a non-empty string" });
+        }
 
         const userId = sanitizeUserId(body.userId ?? req.headers["x-user-id"] ?? "default");
         let sessionId: string | undefined = body.sessionId;
@@ -90,6 +143,10 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
         if (record.busy) {
           return sendJson(res, 409, { error: "Session is busy" });
         }
+        if (agentId && !getAgentById(agentId, record.session.agents)) {
+          const available = record.session.agents.map((agent) => agent.id).join(", ");
+          return sendJson(res, 400, { error: `Unknown agent "${agentId}". Available agents: ${available}` });
+        }
 
         record.busy = true;
 
@@ -123,9 +180,13 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
 
         let outputTokens = 0;
         let outputChars = 0;
+        let promptTokens = 0;
+        let completionTokens = 0;
+        let measured = false;
 
         try {
           await record.session.runTurn(message, {
+            agent: agentId,
             onToken: (token) => {
               if (closed) {
                 return;
@@ -139,6 +200,16 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
                 return;
               }
               writeSse(res, { type: "agent", name: event.name, content: event.content });
+            },
+            onUsage: (usage) => {
+              if (!usage.estimated) {
+                measured = true;
+                promptTokens += usage.promptTokens;
+                completionTokens += usage.completionTokens;
+              }
+              if (!closed) {
+                writeSse(res, { type: "usage", ...usage });
+              }
             }
           });
           if (!closed) {
@@ -150,9 +221,11 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
           }
         } finally {
           const durationSec = (Date.now() - startTime) / 1000;
-          const totalTokens = inputTokens + outputTokens;
+          const tokenSummary = measured
+            ? `in=${promptTokens} out=${completionTokens} total=${promptTokens + completionTokens}`
+            : `in~${inputTokens} out~${outputTokens} total~${inputTokens + outputTokens}`;
           console.log(
-            `Completed request | user=${userId} | session=${sessionId} | in~${inputTokens} out~${outputTokens} total~${totalTokens} | chars in=${inputChars} out=${outputChars} | ${durationSec.toFixed(
+            `Completed request | user=${userId} | session=${sessionId} | ${tokenSummary} | chars in=${inputChars} out=${outputChars} | ${durationSec.toFixed(
               2
             )}s`
           );
@@ -173,7 +246,11 @@ export async function startServer(options: ServerOptions): Promise<http.Server>
   });
 }
 
-async function createSessionRecord(options: ServerOptions, userId: string): Promise<SessionRecord & { id: string }> {
+async function createSessionRecord(
+  options: ServerOptions,
+  userId: string,
+  model?: string
+): Promise<SessionRecord & { id: string }> {
   const workspaceRoot = path.join(options.baseDir, "workspaces", userId);
   await ensureWorkspaceRoot(workspaceRoot);
   const session = await createAgentSession({
@@ -182,8 +259,27 @@ async function createSessionRecord(options: ServerOptions, userId: string): Prom
     confirm: options.autoApprove ? undefined : async () => false,
     baseDir: options.baseDir,
     workspaceRoot,
-    llmConfig: options.llmConfig
+    llmConfig: options.llmConfig,
+    models: options.models,
+    model,
+    compactThreshold: options.compactThreshold,
+    patchFuzz: options.patchFuzz,
+    toolConcurrency: options.toolConcurrency,
+    keepRecentTurns: options.keepRecentTurns,
+    routing: options.routing,
+    routingMinConfidence: options.routingMinConfidence,
+    onRetry: (event) => {
+      console.log(
+        `LLM retry ${event.attempt}/${event.maxRetries} | user=${userId} | in ${event.delayMs}ms | ${event.reason}`
+      );
+    },
+    onFallback: (event) => {
+      console.log(`LLM fallback | user=${userId} | ${event.from} -> ${event.to} | ${event.reason}`);
+    }
   });
+  for (const error of session.agentLoadErrors) {
+    console.log(`Skipped agent ${error.file}: ${error.message}`);
+  }
   const id = randomUUID();
   return { id, session, busy: false, userId, workspaceRoot };
 }
@@ -0,0 +1,189 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import { resolveSandboxPath, type ResolvedPath } from "../util/sandboxPath.js";
+
+export interface CheckpointFile {
+  path: string;
+  existed: boolean;
+  dir?: boolean;
+}
+
+export interface CheckpointInfo {
+  id: string;
+  createdAt: string;
+  label: string;
+  workspace: string;
+  files: CheckpointFile[];
+}
+
+export interface CheckpointStore {
+  beginTurn: (label: string) => void;
+  snapshot: (paths: string[]) => Promise<void>;
+  list: () => Promise<CheckpointInfo[]>;
+  restore: (id: string) => Promise<CheckpointInfo[]>;
+  undo: () => Promise<CheckpointInfo[]>;
+}
+
+const MANIFEST_FILE = "checkpoint.json";
+
+export function getCheckpointsDir(baseDir: string): string {
+  return path.join(baseDir, ".workshop", "checkpoints");
+}
+
+export function createCheckpointStore(baseDir: string, workspaceRoot: string): CheckpointStore {
+  const checkpointsDir = getCheckpointsDir(baseDir);
+  const workspace = path.resolve(workspaceRoot);
+  let label = "";
+  let current: CheckpointInfo | null = null;
+
+  const beginTurn = (nextLabel: string) => {
+    label = nextLabel.replace(/\s+/g, " ").trim().slice(0, 80);
+    current = null;
+  };
+
+  const record = async (resolved: ResolvedPath, existed: boolean, dir = false) => {
+    if (!current) {
+      const createdAt = new Date().toISOString();
+      const base = createdAt.replace(/[:.]/g, "-");
+      let id = base;
+      for (let suffix = 2; await pathExists(path.join(checkpointsDir, id)); suffix += 1) {
+        id = `${base}-${suffix}`;
+      }
+      current = { id, createdAt, label, workspace, files: [] };
+    }
+    if (current.files.some((file) => file.path === resolved.relativePath)) {
+      return;
+    }
+    const checkpointDir = path.join(checkpointsDir, current.id);
+    if (existed && !dir) {
+      const target = path.join(checkpointDir, "files", resolved.relativePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(resolved.absolutePath, target);
+    }
+    current.files.push({ path: resolved.relativePath, existed, ...(dir ? { dir } : {}) });
+    await fs.mkdir(checkpointDir, { recursive: true });
+    await fs.writeFile(path.join(checkpointDir, MANIFEST_FILE), JSON.stringify(current, null, 2), "utf8");
+  };
+
+  // Called before every write tool runs; the first snapshot of a path in a turn wins.
+  // Existing directories are recorded along with everything inside them so a move or delete can be
+  // rolled back, and a missing path is recorded with each missing parent directory the write may create.
+  const snapshot = async (paths: string[]) => {
+    const queue = [...paths];
+    while (queue.length > 0) {
+      const inputPath = queue.shift() as string;
+      let resolved: ResolvedPath;
+      try {
+        resolved = await resolveSandboxPath(workspace, inputPath);
+      } catch {
+        continue;
+      }
+      if (!resolved.relativePath) {
+        continue;
+      }
+      const stat = await fs.stat(resolved.absolutePath).catch(() => null);
+      if (stat?.isDirectory()) {
+        await record(resolved, true, true);
+        const entries = await fs.readdir(resolved.absolutePath);
+        queue.unshift(...entries.map((entry) => `${resolved.relativePath}/${entry}`));
+        continue;
+      }
+      if (!stat) {
+        const parts = resolved.relativePath.split("/");
+        for (let depth = 1; depth < parts.length; depth += 1) {
+          const ancestor = await resolveSandboxPath(workspace, parts.slice(0, depth).join("/"));
+          if (!(await pathExists(ancestor.absolutePath))) {
+            await record(ancestor, false);
+          }
+        }
+      }
+      await record(resolved, Boolean(stat?.isFile()));
+    }
+  };
+
+  const list = async (): Promise<CheckpointInfo[]> => {
+    let names: string[];
+    try {
+      names = await fs.readdir(checkpointsDir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw err;
+    }
+    const checkpoints: CheckpointInfo[] = [];
+    for (const name of names) {
+      try {
+        const raw = await fs.readFile(path.join(checkpointsDir, name, MANIFEST_FILE), "utf8");
+        const info = JSON.parse(raw) as CheckpointInfo;
+        if (info.workspace === workspace) {
+          checkpoints.push({ ...info, id: name });
+        }
+      } catch {
+        continue;
+      }
+    }
+    return checkpoints.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  };
+
+  // Restoring a checkpoint also rolls back every newer one, newest first, then discards them.
+  // Entries are undone in reverse so created files go before their parent directories; a created
+  // directory is only removed once it is empty, so files that were never snapshotted survive.
+  const restore = async (id: string): Promise<CheckpointInfo[]> => {
+    const checkpoints = await list();
+    const index = checkpoints.findIndex((checkpoint) => checkpoint.id === id.trim());
+    if (index === -1) {
+      throw new Error(`Checkpoint not found: ${id}`);
+    }
+    const restored = checkpoints.slice(0, index + 1);
+    for (const checkpoint of restored) {
+      const dir = path.join(checkpointsDir, checkpoint.id);
+      for (const file of [...checkpoint.files].reverse()) {
+        const resolved = await resolveSandboxPath(workspace, file.path);
+        if (file.existed && file.dir) {
+          await fs.mkdir(resolved.absolutePath, { recursive: true });
+          continue;
+        }
+        if (file.existed) {
+          await fs.mkdir(path.dirname(resolved.absolutePath), { recursive: true });
+          await fs.copyFile(path.join(dir, "files", file.path), resolved.absolutePath);
+          continue;
+        }
+        const stat = await fs.lstat(resolved.absolutePath).catch(() => null);
+        if (stat?.isDirectory()) {
+          await fs.rmdir(resolved.absolutePath).catch((err: NodeJS.ErrnoException) => {
+            if (err.code !== "ENOTEMPTY" && err.code !== "EEXIST") {
+              throw err;
+            }
+          });
+        } else if (stat) {
+          await fs.rm(resolved.absolutePath, { force: true });
+        }
+      }
+      await fs.rm(dir, { recursive: true, force: true });
+      if (current?.id === checkpoint.id) {
+        current = null;
+      }
+    }
+    return restored;
+  };
+
+  const undo = async (): Promise<CheckpointInfo[]> => {
+    const [latest] = await list();
+    if (!latest) {
+      throw new Error("No checkpoints to undo");
+    }
+    return restore(latest.id);
+  };
+
+  return { beginTurn, snapshot, list, restore, undo };
+}
+
+async function pathExists(target: string): Promise<boolean> {
+  try {
+    await fs.access(target);
+    return true;
+  } catch {
+    return false;
+  }
+}
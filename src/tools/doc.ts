@@ -2,7 +2,7 @@ import path from "node:path";
 import fs from "node:fs/promises";
 import { JSDOM, VirtualConsole } from "jsdom";
 import { Readability } from "@mozilla/readability";
-import { OllamaClient } from "../llm/ollamaClient.js";
+import { OllamaClient, type ChatClient } from "../llm/ollamaClient.js";
 import { DEFAULT_CONFIG } from "../util/config.js";
 import { ensureWorkspaceRoot, resolveSandboxPath } from "../util/sandboxPath.js";
 import { webFetch } from "./web.js";
@@ -41,7 +41,7 @@ const DEFAULT_CHUNK_CHARS = 12000;
 export async function docSummarize(
   workspaceRoot: string,
   options: DocSummarizeOptions,
-  client?: OllamaClient
+  client?: ChatClient
 ): Promise<DocSummarizeResult> {
   const llm = client ?? defaultClient;
   const source = String(options.source ?? "").trim();
@@ -231,7 +231,7 @@ function splitIntoChunks(text: string, maxChunkChars: number): string[] {
 }
 
 async function summarizeChunk(
-  client: OllamaClient,
+  client: ChatClient,
   chunk: string,
   options: { style: DocSummaryStyle; focus?: string; index: number; total: number }
 ): Promise<string> {
@@ -254,7 +254,7 @@ async function summarizeChunk(
 }
 
 async function summarizeCombined(
-  client: OllamaClient,
+  client: ChatClient,
   summaries: string[],
   style: DocSummaryStyle,
   focus?: string
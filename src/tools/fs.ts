@@ -1,54 +1,474 @@
 import path from "node:path";
 import fs from "node:fs/promises";
-import { applyPatch as applyUnifiedPatch, parsePatch } from "diff";
+import { createReadStream } from "node:fs";
+import readline from "node:readline";
+import { createTwoFilesPatch, parsePatch } from "diff";
 import { resolveSandboxPath, ensureWorkspaceRoot, toWorkspaceRelative } from "../util/sandboxPath.js";
+import { globToRegExp, isIgnored, parseIgnoreRules, type IgnoreRule } from "../util/glob.js";
 
 export interface FsListEntry {
   name: string;
   path: string;
   type: "file" | "dir";
   size?: number;
+  modified?: string;
+}
+
+export interface FsListOptions {
+  recursive?: boolean;
+  pattern?: string;
+  maxDepth?: number;
+  maxEntries?: number;
+  respectGitignore?: boolean;
+}
+
+export interface FsListResult {
+  entries: FsListEntry[];
+  tree: string;
+  truncated: boolean;
+}
+
+export interface FsReadOptions {
+  offset?: number;
+  limit?: number;
+  maxBytes?: number;
+}
+
+export interface FsReadResult {
+  path: string;
+  size: number;
+  content?: string;
+  totalLines?: number;
+  startLine?: number;
+  endLine?: number;
+  truncated?: boolean;
+  nextOffset?: number;
+  binary?: boolean;
+  type?: string;
+}
+
+export interface FsSearchOptions {
+  path?: string;
+  glob?: string;
+  literal?: boolean;
+  ignoreCase?: boolean;
+  contextLines?: number;
+  maxResults?: number;
+}
+
+export interface FsSearchMatch {
+  path: string;
+  line: number;
+  text: string;
+  before?: string[];
+  after?: string[];
+}
+
+export interface FsSearchResult {
+  matches: FsSearchMatch[];
+  filesSearched: number;
+  truncated: boolean;
+}
+
+export interface FsEditOptions {
+  replaceAll?: boolean;
+  dryRun?: boolean;
+}
+
+export interface FsEditResult {
+  path: string;
+  replacements: number;
+  diff: string;
+  dryRun?: boolean;
+}
+
+export interface FsApplyPatchOptions {
+  dryRun?: boolean;
+  fuzzFactor?: number;
+}
+
+export interface PatchHunkStatus {
+  header: string;
+  applied: boolean;
+  expected?: string[];
+  closest?: { startLine: number; endLine: number; matchingLines: number; lines: string[] };
+}
+
+export interface PatchFilePreview {
+  path: string;
+  action: "add" | "update" | "delete";
+  diff: string;
+  hunks?: PatchHunkStatus[];
 }
 
 export interface FsApplyPatchResult {
   applied: boolean;
   summary: string;
   changedFiles: string[];
+  dryRun?: boolean;
+  files?: PatchFilePreview[];
+}
+
+interface PlannedFile {
+  absolutePath: string;
+  relativePath: string;
+  before: string | null;
+  after: string | null;
+  hunks?: PatchHunkStatus[];
+}
+
+type PatchPlan = Map<string, PlannedFile>;
+
+type UnifiedHunk = ReturnType<typeof parsePatch>[number]["hunks"][number];
+
+interface SimplePatchHunk {
+  anchor: string;
+  lines: Array<{ type: " " | "-" | "+"; text: string }>;
+  endOfFile: boolean;
+}
+
+interface SimplePatchOperation {
+  type: "add" | "update" | "delete";
+  path: string;
+  content?: string;
+  hunks?: SimplePatchHunk[];
+  moveTo?: string;
 }
 
-export async function fsList(root: string, inputPath = "."): Promise<{ entries: FsListEntry[] }> {
+const END_OF_FILE_MARKER = "*** End of File";
+const DEFAULT_FUZZ_FACTOR = 2;
+const MAX_REPORTED_LINES = 12;
+const SKIPPED_DIRS = new Set([".workshop", ".git"]);
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+const MAX_SNIPPET_CHARS = 240;
+const DEFAULT_READ_BYTES = 100 * 1024;
+const MAX_READ_BYTES = 1024 * 1024;
+const BINARY_SIGNATURES: Array<{ type: string; bytes: number[] }> = [
+  { type: "PNG image", bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { type: "JPEG image", bytes: [0xff, 0xd8, 0xff] },
+  { type: "GIF image", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: "PDF document", bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: "ZIP archive", bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: "gzip archive", bytes: [0x1f, 0x8b] },
+  { type: "ELF executable", bytes: [0x7f, 0x45, 0x4c, 0x46] }
+];
+
+export async function fsList(root: string, inputPath = ".", options: FsListOptions = {}): Promise<FsListResult> {
   const rootReal = await ensureWorkspaceRoot(root);
   const resolved = await resolveSandboxPath(rootReal, inputPath);
-  const entries = await fs.readdir(resolved.absolutePath, { withFileTypes: true });
+  const pattern = options.pattern ? globToRegExp(options.pattern) : null;
+  const recursive = Boolean(options.recursive || pattern);
+  const maxDepth = recursive ? clamp(options.maxDepth ?? 10, 1, 50) : 1;
+  const maxEntries = clamp(options.maxEntries ?? 500, 1, 5000);
+  // .gitignore rules only apply to recursive or pattern walks unless respectGitignore is set explicitly.
+  const useGitignore = options.respectGitignore ?? recursive;
   const output: FsListEntry[] = [];
+  let truncated = false;
+
+  const visit = async (dir: string, depth: number, inherited: IgnoreRule[]): Promise<void> => {
+    const rules = useGitignore ? [...inherited, ...(await loadGitignore(rootReal, dir))] : inherited;
+    const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      const isDir = entry.isDirectory();
+      if ((!isDir && !entry.isFile()) || (isDir && SKIPPED_DIRS.has(entry.name))) {
+        continue;
+      }
+      const relativePath = toWorkspaceRelative(rootReal, entryPath);
+      if (isIgnored(rules, relativePath, isDir)) {
+        continue;
+      }
+      if (!pattern || (!isDir && pattern.test(toWorkspaceRelative(resolved.absolutePath, entryPath)))) {
+        if (output.length >= maxEntries) {
+          truncated = true;
+          return;
+        }
+        const stat = await fs.stat(entryPath);
+        output.push({
+          name: entry.name,
+          path: relativePath,
+          type: isDir ? "dir" : "file",
+          ...(isDir ? {} : { size: stat.size }),
+          modified: stat.mtime.toISOString()
+        });
+      }
+      if (isDir && depth < maxDepth) {
+        await visit(entryPath, depth + 1, rules);
+        if (truncated) {
+          return;
+        }
+      }
+    }
+  };
 
+  await visit(resolved.absolutePath, 1, useGitignore ? await loadParentGitignores(rootReal, resolved.absolutePath) : []);
+  const tree = renderTree(resolved.relativePath || ".", resolved.relativePath, output);
+  return { entries: output, tree: truncated ? `${tree}\n... (stopped at ${maxEntries} entries)` : tree, truncated };
+}
+
+async function loadGitignore(rootReal: string, dir: string): Promise<IgnoreRule[]> {
+  try {
+    const content = await fs.readFile(path.join(dir, ".gitignore"), "utf8");
+    return parseIgnoreRules(content, toWorkspaceRelative(rootReal, dir));
+  } catch {
+    return [];
+  }
+}
+
+// Listing a subdirectory still honours the .gitignore files above it, up to the workspace root.
+async function loadParentGitignores(rootReal: string, dir: string): Promise<IgnoreRule[]> {
+  if (dir === rootReal) {
+    return [];
+  }
+  const rules: IgnoreRule[] = [];
+  for (let parent = path.dirname(dir); ; parent = path.dirname(parent)) {
+    rules.unshift(...(await loadGitignore(rootReal, parent)));
+    if (parent === rootReal || parent === path.dirname(parent)) {
+      break;
+    }
+  }
+  return rules;
+}
+
+interface TreeNode {
+  entry?: FsListEntry;
+  children: Map<string, TreeNode>;
+}
+
+function renderTree(label: string, basePath: string, entries: FsListEntry[]): string {
+  const rootNode: TreeNode = { children: new Map() };
   for (const entry of entries) {
-    const entryPath = path.join(resolved.absolutePath, entry.name);
-    if (entry.isDirectory()) {
-      output.push({
-        name: entry.name,
-        path: toWorkspaceRelative(rootReal, entryPath),
-        type: "dir"
-      });
-    } else if (entry.isFile()) {
-      const stat = await fs.stat(entryPath);
-      output.push({
-        name: entry.name,
-        path: toWorkspaceRelative(rootReal, entryPath),
-        type: "file",
-        size: stat.size
-      });
+    const relative = basePath ? entry.path.slice(basePath.length + 1) : entry.path;
+    let node = rootNode;
+    for (const part of relative.split("/")) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    node.entry = entry;
+  }
+
+  const lines = [`${label.replace(/\/$/, "")}/`];
+  const render = (node: TreeNode, indent: string) => {
+    const children = [...node.children.entries()].sort(([nameA, a], [nameB, b]) => {
+      const dirA = a.entry?.type !== "file";
+      const dirB = b.entry?.type !== "file";
+      return dirA === dirB ? nameA.localeCompare(nameB) : dirA ? -1 : 1;
+    });
+    for (const [name, child] of children) {
+      if (child.entry?.type === "file") {
+        lines.push(`${indent}${name} (${formatSize(child.entry.size ?? 0)})`);
+      } else {
+        lines.push(`${indent}${name}/`);
+        render(child, `${indent}  `);
+      }
     }
+  };
+  render(rootNode, "  ");
+  return lines.join("\n");
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
   }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
-  return { entries: output };
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
 }
 
-export async function fsRead(root: string, inputPath: string): Promise<{ path: string; content: string }> {
+export async function fsRead(root: string, inputPath: string, options: FsReadOptions = {}): Promise<FsReadResult> {
   const rootReal = await ensureWorkspaceRoot(root);
   const resolved = await resolveSandboxPath(rootReal, inputPath);
-  const content = await fs.readFile(resolved.absolutePath, "utf8");
-  return { path: resolved.relativePath, content };
+  const stat = await fs.stat(resolved.absolutePath);
+  if (!stat.isFile()) {
+    throw new Error(`Not a file: ${resolved.relativePath}`);
+  }
+
+  const header = await readHeader(resolved.absolutePath);
+  if (isBinary(header)) {
+    return { path: resolved.relativePath, size: stat.size, binary: true, type: describeBinary(header) };
+  }
+
+  const maxBytes = clamp(options.maxBytes ?? DEFAULT_READ_BYTES, 1, MAX_READ_BYTES);
+  const startLine = Math.max(1, Math.floor(options.offset ?? 1));
+  const limit = options.limit !== undefined ? Math.max(1, Math.floor(options.limit)) : Infinity;
+  if (startLine === 1 && limit === Infinity && stat.size <= maxBytes) {
+    const content = await fs.readFile(resolved.absolutePath, "utf8");
+    const totalLines = content.length === 0 ? 0 : content.replace(/\r?\n$/, "").split(/\r?\n/).length;
+    return { path: resolved.relativePath, size: stat.size, content, totalLines, truncated: false };
+  }
+
+  // Larger files and explicit ranges are streamed so only the requested page is held in memory.
+  const lines: string[] = [];
+  let bytes = 0;
+  let totalLines = 0;
+  let full = false;
+  const reader = readline.createInterface({
+    input: createReadStream(resolved.absolutePath, { encoding: "utf8" }),
+    crlfDelay: Infinity
+  });
+  for await (const line of reader) {
+    totalLines += 1;
+    if (totalLines < startLine || full) {
+      continue;
+    }
+    const lineBytes = Buffer.byteLength(line, "utf8") + 1;
+    if (lines.length >= limit || (lines.length > 0 && bytes + lineBytes > maxBytes)) {
+      full = true;
+      continue;
+    }
+    if (lineBytes > maxBytes) {
+      lines.push(`${truncateUtf8(line, maxBytes)}... [line truncated]`);
+      bytes = maxBytes;
+      continue;
+    }
+    lines.push(line);
+    bytes += lineBytes;
+  }
+
+  const endLine = startLine + lines.length - 1;
+  const truncated = endLine < totalLines || lines.some((line) => line.endsWith("... [line truncated]"));
+  return {
+    path: resolved.relativePath,
+    size: stat.size,
+    content: lines.join("\n"),
+    totalLines,
+    startLine,
+    endLine,
+    truncated,
+    ...(endLine < totalLines ? { nextOffset: endLine + 1 } : {})
+  };
+}
+
+// Cuts text to at most maxBytes of UTF-8, backing off so no multi-byte character is split.
+function truncateUtf8(text: string, maxBytes: number): string {
+  const buffer = Buffer.from(text, "utf8");
+  if (buffer.length <= maxBytes) {
+    return text;
+  }
+  let end = maxBytes;
+  while (end > 0 && (buffer[end] & 0xc0) === 0x80) {
+    end -= 1;
+  }
+  return buffer.subarray(0, end).toString("utf8");
+}
+
+async function readHeader(absolutePath: string): Promise<Buffer> {
+  const handle = await fs.open(absolutePath, "r");
+  try {
+    const buffer = Buffer.alloc(8000);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function describeBinary(header: Buffer): string {
+  const match = BINARY_SIGNATURES.find((signature) => signature.bytes.every((byte, index) => header[index] === byte));
+  return match?.type ?? "binary data";
+}
+
+export async function fsSearch(root: string, pattern: string, options: FsSearchOptions = {}): Promise<FsSearchResult> {
+  const rootReal = await ensureWorkspaceRoot(root);
+  const resolved = await resolveSandboxPath(rootReal, options.path ?? ".");
+  if (!pattern) {
+    throw new Error("Pattern is required");
+  }
+  let regex: RegExp;
+  try {
+    const source = options.literal ? pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") : pattern;
+    regex = new RegExp(source, options.ignoreCase ? "i" : "");
+  } catch (err) {
+    throw new Error(`Invalid regex: ${(err as Error).message}`);
+  }
+  const glob = options.glob ? globToRegExp(options.glob) : null;
+  const contextLines = Math.min(Math.max(options.contextLines ?? 0, 0), 10);
+  const maxResults = Math.min(Math.max(options.maxResults ?? 50, 1), 500);
+
+  const matches: FsSearchMatch[] = [];
+  let filesSearched = 0;
+  for await (const file of walkFiles(rootReal, resolved.absolutePath)) {
+    if (glob && !glob.test(file.relativePath)) {
+      continue;
+    }
+    const content = await readTextFile(file.absolutePath);
+    if (content === null) {
+      continue;
+    }
+    filesSearched += 1;
+    const lines = content.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index += 1) {
+      if (!regex.test(lines[index])) {
+        continue;
+      }
+      if (matches.length >= maxResults) {
+        return { matches, filesSearched, truncated: true };
+      }
+      const match: FsSearchMatch = { path: file.relativePath, line: index + 1, text: clipLine(lines[index]) };
+      if (contextLines > 0) {
+        match.before = lines.slice(Math.max(0, index - contextLines), index).map(clipLine);
+        match.after = lines.slice(index + 1, index + 1 + contextLines).map(clipLine);
+      }
+      matches.push(match);
+    }
+  }
+  return { matches, filesSearched, truncated: false };
+}
+
+// Skips symlinks so a walk can never leave the workspace, and the tool's own state directories.
+async function* walkFiles(
+  rootReal: string,
+  dir: string
+): AsyncGenerator<{ absolutePath: string; relativePath: string }> {
+  const stat = await fs.stat(dir);
+  if (stat.isFile()) {
+    yield { absolutePath: dir, relativePath: toWorkspaceRelative(rootReal, dir) };
+    return;
+  }
+  const entries = (await fs.readdir(dir, { withFileTypes: true })).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) {
+        yield* walkFiles(rootReal, entryPath);
+      }
+    } else if (entry.isFile()) {
+      yield { absolutePath: entryPath, relativePath: toWorkspaceRelative(rootReal, entryPath) };
+    }
+  }
+}
+
+async function readTextFile(absolutePath: string): Promise<string | null> {
+  const stat = await fs.stat(absolutePath);
+  if (stat.size > MAX_SEARCH_FILE_BYTES) {
+    return null;
+  }
+  const buffer = await fs.readFile(absolutePath);
+  if (isBinary(buffer)) {
+    return null;
+  }
+  return buffer.toString("utf8");
+}
+
+function isBinary(buffer: Buffer): boolean {
+  if (BINARY_SIGNATURES.some((signature) => signature.bytes.every((byte, index) => buffer[index] === byte))) {
+    return true;
+  }
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+function clipLine(line: string): string {
+  return line.length > MAX_SNIPPET_CHARS ? `${line.slice(0, MAX_SNIPPET_CHARS)}...` : line;
 }
 
 export async function fsWrite(
@@ -68,91 +488,534 @@ export async function fsWrite(
   return { path: resolved.relativePath, bytesWritten: Buffer.byteLength(content, "utf8") };
 }
 
-export async function fsApplyPatch(root: string, patch: string): Promise<FsApplyPatchResult> {
+export function getTrashDir(baseDir: string): string {
+  return path.join(baseDir, ".workshop", "trash");
+}
+
+export async function fsMove(
+  root: string,
+  from: string,
+  to: string,
+  overwrite = false
+): Promise<{ from: string; to: string; type: "file" | "dir" }> {
+  const { source, target, type } = await resolveTransfer(root, from, to, overwrite);
+  await fs.mkdir(path.dirname(target.absolutePath), { recursive: true });
+  try {
+    await fs.rename(source.absolutePath, target.absolutePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw err;
+    }
+    await fs.cp(source.absolutePath, target.absolutePath, { recursive: true });
+    await fs.rm(source.absolutePath, { recursive: true, force: true });
+  }
+  return { from: source.relativePath, to: target.relativePath, type };
+}
+
+export async function fsCopy(
+  root: string,
+  from: string,
+  to: string,
+  overwrite = false
+): Promise<{ from: string; to: string; type: "file" | "dir" }> {
+  const { source, target, type } = await resolveTransfer(root, from, to, overwrite);
+  await fs.mkdir(path.dirname(target.absolutePath), { recursive: true });
+  await fs.cp(source.absolutePath, target.absolutePath, { recursive: true, force: overwrite, errorOnExist: !overwrite });
+  return { from: source.relativePath, to: target.relativePath, type };
+}
+
+// Deleted files are moved under the trash directory, keeping their workspace path, so they can be recovered.
+export async function fsDelete(
+  root: string,
+  inputPath: string,
+  trashDir: string
+): Promise<{ path: string; type: "file" | "dir"; trash: string }> {
+  const rootReal = await ensureWorkspaceRoot(root);
+  const resolved = await resolveSandboxPath(rootReal, inputPath);
+  if (!resolved.relativePath) {
+    throw new Error("Refusing to delete the workspace root");
+  }
+  const stat = await fs.lstat(resolved.absolutePath).catch(() => null);
+  if (!stat) {
+    throw new Error(`Not found: ${resolved.relativePath}`);
+  }
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const trashPath = path.join(trashDir, stamp, resolved.relativePath);
+  await fs.mkdir(path.dirname(trashPath), { recursive: true });
+  try {
+    await fs.rename(resolved.absolutePath, trashPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw err;
+    }
+    await fs.cp(resolved.absolutePath, trashPath, { recursive: true });
+    await fs.rm(resolved.absolutePath, { recursive: true, force: true });
+  }
+  return {
+    path: resolved.relativePath,
+    type: stat.isDirectory() ? "dir" : "file",
+    trash: toWorkspaceRelative(trashDir, trashPath)
+  };
+}
+
+export async function fsMkdir(root: string, inputPath: string): Promise<{ path: string; created: boolean }> {
+  const rootReal = await ensureWorkspaceRoot(root);
+  const resolved = await resolveSandboxPath(rootReal, inputPath);
+  const stat = await fs.stat(resolved.absolutePath).catch(() => null);
+  if (stat) {
+    if (!stat.isDirectory()) {
+      throw new Error(`A file already exists at ${resolved.relativePath}`);
+    }
+    return { path: resolved.relativePath, created: false };
+  }
+  await fs.mkdir(resolved.absolutePath, { recursive: true });
+  return { path: resolved.relativePath, created: true };
+}
+
+async function resolveTransfer(root: string, from: string, to: string, overwrite: boolean) {
+  const rootReal = await ensureWorkspaceRoot(root);
+  const source = await resolveSandboxPath(rootReal, from);
+  const target = await resolveSandboxPath(rootReal, to);
+  if (!source.relativePath || !target.relativePath) {
+    throw new Error("The workspace root cannot be moved, copied or replaced");
+  }
+  const sourceStat = await fs.stat(source.absolutePath).catch(() => null);
+  if (!sourceStat) {
+    throw new Error(`Not found: ${source.relativePath}`);
+  }
+  if (source.absolutePath === target.absolutePath) {
+    throw new Error("Source and destination are the same");
+  }
+  const type: "file" | "dir" = sourceStat.isDirectory() ? "dir" : "file";
+  if (type === "dir" && `${target.relativePath}/`.startsWith(`${source.relativePath}/`)) {
+    throw new Error(`Cannot place ${source.relativePath} inside itself`);
+  }
+  const targetStat = await fs.stat(target.absolutePath).catch(() => null);
+  if (targetStat && (!overwrite || targetStat.isDirectory() || type === "dir")) {
+    throw new Error(
+      targetStat.isDirectory() || type === "dir"
+        ? `Destination already exists: ${target.relativePath}`
+        : `Destination already exists: ${target.relativePath} (set overwrite to replace it)`
+    );
+  }
+  return { source, target, type };
+}
+
+export async function fsEdit(
+  root: string,
+  inputPath: string,
+  oldString: string,
+  newString: string,
+  options: FsEditOptions = {}
+): Promise<FsEditResult> {
+  const rootReal = await ensureWorkspaceRoot(root);
+  const resolved = await resolveSandboxPath(rootReal, inputPath);
+  if (!oldString) {
+    throw new Error("old_string must not be empty; use fs_write to create files");
+  }
+  if (oldString === newString) {
+    throw new Error("old_string and new_string are identical");
+  }
+  if (!(await fileExists(resolved.absolutePath))) {
+    throw new Error(`File not found: ${resolved.relativePath}`);
+  }
+
+  const before = await fs.readFile(resolved.absolutePath, "utf8");
+  const count = before.split(oldString).length - 1;
+  if (count === 0) {
+    throw new Error(`old_string was not found in ${resolved.relativePath}; re-read the file and copy the text exactly`);
+  }
+  if (count > 1 && !options.replaceAll) {
+    throw new Error(
+      `old_string matches ${count} places in ${resolved.relativePath}; add surrounding lines to make it unique or set replace_all`
+    );
+  }
+
+  const after = options.replaceAll ? before.split(oldString).join(newString) : before.replace(oldString, () => newString);
+  const result: FsEditResult = {
+    path: resolved.relativePath,
+    replacements: options.replaceAll ? count : 1,
+    diff: formatDiff(resolved.relativePath, before, after, 1)
+  };
+  if (options.dryRun) {
+    return { ...result, dryRun: true };
+  }
+  await fs.writeFile(resolved.absolutePath, after, "utf8");
+  return result;
+}
+
+export async function fsApplyPatch(
+  root: string,
+  patch: string,
+  options: FsApplyPatchOptions = {}
+): Promise<FsApplyPatchResult> {
   const rootReal = await ensureWorkspaceRoot(root);
   if (!patch || patch.trim().length === 0) {
     return { applied: false, summary: "Patch is empty", changedFiles: [] };
   }
 
+  const plan: PatchPlan = new Map();
+  let outcome: { operations: number; error?: string };
   if (patch.includes("*** Begin Patch") || patch.includes("*** Add File:") || patch.includes("*** Update File:")) {
-    return applySimplePatch(rootReal, patch);
+    outcome = await planSimplePatch(rootReal, patch, plan);
+  } else if (patch.includes("diff --git") || patch.includes("--- ") || patch.includes("+++ ")) {
+    outcome = await planUnifiedDiff(rootReal, patch, plan, options.fuzzFactor ?? DEFAULT_FUZZ_FACTOR);
+  } else {
+    return { applied: false, summary: "Unrecognized patch format", changedFiles: [] };
   }
 
-  if (patch.includes("diff --git") || patch.includes("--- ") || patch.includes("+++ ")) {
-    return applyUnifiedDiff(rootReal, patch);
+  const files = [...plan.values()].filter((file) => file.before !== file.after);
+  const changedFiles = files.map((file) => file.relativePath);
+  if (options.dryRun) {
+    return {
+      applied: false,
+      dryRun: true,
+      summary: outcome.error ?? `Dry run: ${outcome.operations} operation(s) would change ${files.length} file(s)`,
+      changedFiles: outcome.error ? [] : changedFiles,
+      files: [...plan.values()].map(toPreview)
+    };
+  }
+  if (outcome.error) {
+    const [headline, ...details] = outcome.error.split("\n");
+    return { applied: false, summary: [`${headline}; no files were changed`, ...details].join("\n"), changedFiles: [] };
   }
 
-  return { applied: false, summary: "Unrecognized patch format", changedFiles: [] };
+  await commitPlan(files);
+  return { applied: true, summary: `Applied ${outcome.operations} operation(s)`, changedFiles };
 }
 
-async function applySimplePatch(rootReal: string, patch: string): Promise<FsApplyPatchResult> {
+// The destination paths a move or copy will create, so checkpoints can record each of them.
+export async function transferTargets(root: string, from: string, to: string): Promise<string[]> {
+  const targets = [to];
+  try {
+    const source = await resolveSandboxPath(root, from);
+    const entries = await fs.readdir(source.absolutePath, { recursive: true });
+    for (const entry of entries) {
+      targets.push(`${to.replace(/[\\/]+$/, "")}/${entry.split(path.sep).join("/")}`);
+    }
+  } catch {
+    // A file or missing source only creates the destination itself.
+  }
+  return targets;
+}
+
+export function patchTargets(patch: string): string[] {
+  const targets = new Set<string>();
+  try {
+    if (patch.includes("*** Begin Patch") || patch.includes("*** Add File:") || patch.includes("*** Update File:")) {
+      for (const op of parseSimplePatch(patch)) {
+        targets.add(op.path);
+        if (op.moveTo) {
+          targets.add(op.moveTo);
+        }
+      }
+    } else {
+      for (const file of parsePatch(patch)) {
+        for (const name of [file.oldFileName, file.newFileName]) {
+          const stripped = stripPrefix(name || "");
+          if (stripped && stripped !== "/dev/null") {
+            targets.add(stripped);
+          }
+        }
+      }
+    }
+  } catch {
+    return [];
+  }
+  return [...targets];
+}
+
+// Every operation is applied to in-memory copies first so a failing file leaves the workspace untouched.
+async function planSimplePatch(rootReal: string, patch: string, plan: PatchPlan): Promise<{ operations: number; error?: string }> {
   const operations = parseSimplePatch(patch);
-  const changedFiles: string[] = [];
 
   for (const op of operations) {
-    const resolved = await resolveSandboxPath(rootReal, op.path);
+    const file = await loadPlannedFile(rootReal, op.path, plan);
     if (op.type === "add") {
-      if (await fileExists(resolved.absolutePath)) {
-        return { applied: false, summary: `Add failed, file exists: ${resolved.relativePath}`, changedFiles };
+      if (file.after !== null) {
+        return { operations: operations.length, error: `Add failed, file exists: ${file.relativePath}` };
       }
-      await fs.mkdir(path.dirname(resolved.absolutePath), { recursive: true });
-      await fs.writeFile(resolved.absolutePath, op.content ?? "", "utf8");
+      file.after = op.content ?? "";
     } else if (op.type === "update") {
-      if (!(await fileExists(resolved.absolutePath))) {
-        return { applied: false, summary: `Update failed, file missing: ${resolved.relativePath}`, changedFiles };
+      if (file.after === null) {
+        return { operations: operations.length, error: `Update failed, file missing: ${file.relativePath}` };
+      }
+      let updated = op.content ?? file.after;
+      if (op.hunks) {
+        try {
+          updated = applySimpleHunks(file.relativePath, file.after, op.hunks);
+        } catch (err) {
+          return { operations: operations.length, error: `Update failed: ${(err as Error).message}` };
+        }
+      }
+      if (op.moveTo) {
+        const target = await loadPlannedFile(rootReal, op.moveTo, plan);
+        if (target !== file && target.after !== null) {
+          return { operations: operations.length, error: `Move failed, destination exists: ${target.relativePath}` };
+        }
+        file.after = null;
+        target.after = updated;
+      } else {
+        file.after = updated;
       }
-      await fs.writeFile(resolved.absolutePath, op.content ?? "", "utf8");
     } else if (op.type === "delete") {
-      if (!(await fileExists(resolved.absolutePath))) {
-        return { applied: false, summary: `Delete failed, file missing: ${resolved.relativePath}`, changedFiles };
+      if (file.after === null) {
+        return { operations: operations.length, error: `Delete failed, file missing: ${file.relativePath}` };
       }
-      await fs.unlink(resolved.absolutePath);
+      file.after = null;
     }
-    changedFiles.push(resolved.relativePath);
   }
 
-  return { applied: true, summary: `Applied ${operations.length} operation(s)`, changedFiles };
+  return { operations: operations.length };
 }
 
-async function applyUnifiedDiff(rootReal: string, patchText: string): Promise<FsApplyPatchResult> {
+async function planUnifiedDiff(
+  rootReal: string,
+  patchText: string,
+  plan: PatchPlan,
+  fuzzFactor: number
+): Promise<{ operations: number; error?: string }> {
   const parsed = parsePatch(patchText);
   if (!parsed.length) {
-    return { applied: false, summary: "No patches found", changedFiles: [] };
+    return { operations: 0, error: "No patches found" };
   }
 
-  const changedFiles: string[] = [];
-
   for (const patch of parsed) {
     const oldName = stripPrefix(patch.oldFileName || "");
     const newName = stripPrefix(patch.newFileName || "");
 
     if (newName === "/dev/null" || patch.newFileName === "/dev/null") {
-      const resolved = await resolveSandboxPath(rootReal, oldName);
-      if (!(await fileExists(resolved.absolutePath))) {
-        return { applied: false, summary: `Delete failed, file missing: ${resolved.relativePath}`, changedFiles };
+      const file = await loadPlannedFile(rootReal, oldName, plan);
+      if (file.after === null) {
+        return { operations: parsed.length, error: `Delete failed, file missing: ${file.relativePath}` };
       }
-      await fs.unlink(resolved.absolutePath);
-      changedFiles.push(resolved.relativePath);
+      file.after = null;
       continue;
     }
 
-    const targetName = newName || oldName;
-    const resolved = await resolveSandboxPath(rootReal, targetName);
-    const original = (await fileExists(resolved.absolutePath))
-      ? await fs.readFile(resolved.absolutePath, "utf8")
-      : "";
+    const file = await loadPlannedFile(rootReal, newName || oldName, plan);
+    if ((oldName === "/dev/null" || patch.oldFileName === "/dev/null") && file.after !== null) {
+      return { operations: parsed.length, error: `Add failed, file exists: ${file.relativePath}` };
+    }
+    const result = applyUnifiedHunks(file.after ?? "", patch.hunks, fuzzFactor);
+    file.hunks = [...(file.hunks ?? []), ...result.hunks];
+    if (result.content === null) {
+      return { operations: parsed.length, error: describeFailedHunks(file.relativePath, result.hunks) };
+    }
+    file.after = result.content;
+  }
+
+  return { operations: parsed.length };
+}
 
-    const result = applyUnifiedPatch(original, patch);
-    if (result === false) {
-      return { applied: false, summary: `Failed to apply patch to ${resolved.relativePath}`, changedFiles };
+// Hunks are found by searching outward from their stated line, first exactly and then allowing up to
+// fuzzFactor mismatched context lines. Removed lines must always match, ignoring trailing whitespace.
+function applyUnifiedHunks(
+  content: string,
+  hunks: UnifiedHunk[],
+  fuzzFactor: number
+): { content: string | null; hunks: PatchHunkStatus[] } {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let lines = content.length > 0 ? content.replace(/\r?\n$/, "").split(/\r?\n/) : [];
+  let missingFinalNewline = content.length > 0 && !content.endsWith("\n");
+  let minIndex = 0;
+  let shift = 0;
+  let failed = false;
+
+  const statuses = hunks.map((hunk): PatchHunkStatus => {
+    const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+    const body = hunk.lines.filter((line) => !line.startsWith("\\"));
+    const expected = body.filter((line) => line[0] === " " || line[0] === "-").map((line) => line.slice(1));
+    const originalIndex = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const index = locateHunk(lines, body, originalIndex + shift, minIndex, fuzzFactor);
+    if (index === -1) {
+      failed = true;
+      return { header, applied: false, expected, closest: findClosestRegion(lines, expected, hunk.oldStart + shift) };
+    }
+
+    const replacement: string[] = [];
+    let consumed = 0;
+    for (const line of body) {
+      if (line[0] === "+") {
+        replacement.push(line.slice(1));
+      } else {
+        if (line[0] === " ") {
+          replacement.push(lines[index + consumed]);
+        }
+        consumed += 1;
+      }
+    }
+    if (index + consumed === lines.length) {
+      missingFinalNewline = hunk.lines.some(
+        (line, position) => line.startsWith("\\") && position > 0 && hunk.lines[position - 1][0] !== "-"
+      );
     }
+    lines = [...lines.slice(0, index), ...replacement, ...lines.slice(index + consumed)];
+    shift = index - originalIndex + replacement.length - consumed;
+    minIndex = index + replacement.length;
+    return { header, applied: true };
+  });
 
-    await fs.mkdir(path.dirname(resolved.absolutePath), { recursive: true });
-    await fs.writeFile(resolved.absolutePath, result, "utf8");
-    changedFiles.push(resolved.relativePath);
+  if (failed) {
+    return { content: null, hunks: statuses };
+  }
+  const joined = lines.join(eol);
+  return { content: lines.length > 0 && !missingFinalNewline ? `${joined}${eol}` : joined, hunks: statuses };
+}
+
+function locateHunk(lines: string[], body: string[], wanted: number, minIndex: number, fuzzFactor: number): number {
+  const expected = body.filter((line) => line[0] === " " || line[0] === "-");
+  const maxIndex = lines.length - expected.length;
+  if (maxIndex < minIndex) {
+    return -1;
+  }
+  const start = Math.min(Math.max(wanted, minIndex), maxIndex);
+  if (expected.length === 0) {
+    return start;
   }
+  for (let fuzz = 0; fuzz <= fuzzFactor; fuzz += 1) {
+    for (let distance = 0; start + distance <= maxIndex || start - distance >= minIndex; distance += 1) {
+      for (const candidate of distance === 0 ? [start] : [start + distance, start - distance]) {
+        if (candidate >= minIndex && candidate <= maxIndex && hunkFits(lines, expected, candidate, fuzz)) {
+          return candidate;
+        }
+      }
+    }
+  }
+  return -1;
+}
 
-  return { applied: true, summary: `Applied ${parsed.length} patch(es)`, changedFiles };
+function hunkFits(lines: string[], expected: string[], index: number, fuzz: number): boolean {
+  let mismatches = 0;
+  for (let offset = 0; offset < expected.length; offset += 1) {
+    if (lines[index + offset].trimEnd() === expected[offset].slice(1).trimEnd()) {
+      continue;
+    }
+    mismatches += 1;
+    if (expected[offset][0] === "-" || mismatches > fuzz) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Slides the hunk's expected lines over the file and keeps the window sharing the most lines with it.
+function findClosestRegion(lines: string[], expected: string[], oldStart: number): PatchHunkStatus["closest"] {
+  if (expected.length === 0 || lines.length === 0) {
+    return undefined;
+  }
+  const wanted = expected.map((line) => line.trim());
+  let best: { start: number; score: number } | null = null;
+  for (let start = 0; start < lines.length; start += 1) {
+    let score = 0;
+    for (let offset = 0; offset < wanted.length && start + offset < lines.length; offset += 1) {
+      if (lines[start + offset].trim() === wanted[offset]) {
+        score += 1;
+      }
+    }
+    const closer = best && Math.abs(start + 1 - oldStart) < Math.abs(best.start + 1 - oldStart);
+    if (score > 0 && (!best || score > best.score || (score === best.score && closer))) {
+      best = { start, score };
+    }
+  }
+  if (!best) {
+    return undefined;
+  }
+  const region = lines.slice(best.start, best.start + expected.length);
+  return {
+    startLine: best.start + 1,
+    endLine: best.start + region.length,
+    matchingLines: best.score,
+    lines: region
+  };
+}
+
+function describeFailedHunks(filePath: string, hunks: PatchHunkStatus[]): string {
+  const failed = hunks.filter((hunk) => !hunk.applied);
+  if (failed.length === 0) {
+    return `Failed to apply patch to ${filePath} (hunks apply separately but conflict with each other)`;
+  }
+  const sections = failed.map((hunk) => {
+    const position = hunks.indexOf(hunk) + 1;
+    const lines = [`Hunk ${position} of ${hunks.length} (${hunk.header}) did not match. Expected:`];
+    lines.push(...indentLines(hunk.expected ?? []));
+    if (hunk.closest) {
+      const { startLine, endLine, matchingLines, lines: region } = hunk.closest;
+      lines.push(
+        `Closest match at lines ${startLine}-${endLine} (${matchingLines} of ${hunk.expected?.length ?? 0} lines match):`
+      );
+      lines.push(...indentLines(region));
+    } else {
+      lines.push("No similar region found in the file.");
+    }
+    return lines.join("\n");
+  });
+  return [`Failed to apply patch to ${filePath}`, ...sections].join("\n");
+}
+
+function indentLines(lines: string[]): string[] {
+  const shown = lines.slice(0, MAX_REPORTED_LINES).map((line) => `  ${line}`);
+  if (lines.length > MAX_REPORTED_LINES) {
+    shown.push(`  ... (${lines.length - MAX_REPORTED_LINES} more lines)`);
+  }
+  return shown;
+}
+
+async function loadPlannedFile(rootReal: string, inputPath: string, plan: PatchPlan): Promise<PlannedFile> {
+  const resolved = await resolveSandboxPath(rootReal, inputPath);
+  let file = plan.get(resolved.relativePath);
+  if (!file) {
+    const before = (await fileExists(resolved.absolutePath)) ? await fs.readFile(resolved.absolutePath, "utf8") : null;
+    file = { absolutePath: resolved.absolutePath, relativePath: resolved.relativePath, before, after: before };
+    plan.set(resolved.relativePath, file);
+  }
+  return file;
+}
+
+async function commitPlan(files: PlannedFile[]): Promise<void> {
+  const written: PlannedFile[] = [];
+  try {
+    for (const file of files) {
+      await writePlannedContent(file.absolutePath, file.after);
+      written.push(file);
+    }
+  } catch (err) {
+    for (const file of written.reverse()) {
+      await writePlannedContent(file.absolutePath, file.before).catch(() => undefined);
+    }
+    throw err;
+  }
+}
+
+async function writePlannedContent(absolutePath: string, content: string | null): Promise<void> {
+  if (content === null) {
+    await fs.rm(absolutePath, { force: true });
+    return;
+  }
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, content, "utf8");
+}
+
+function toPreview(file: PlannedFile): PatchFilePreview {
+  const action = file.before === null ? "add" : file.after === null ? "delete" : "update";
+  const diff = formatDiff(file.relativePath, file.before, file.after);
+  return { path: file.relativePath, action, diff, ...(file.hunks ? { hunks: file.hunks } : {}) };
+}
+
+function formatDiff(relativePath: string, before: string | null, after: string | null, context = 3): string {
+  return createTwoFilesPatch(
+    before === null ? "/dev/null" : `a/${relativePath}`,
+    after === null ? "/dev/null" : `b/${relativePath}`,
+    before ?? "",
+    after ?? "",
+    undefined,
+    undefined,
+    { context }
+  )
+    .split("\n")
+    .filter((line) => !line.startsWith("===="))
+    .map((line) => (line.startsWith("--- ") || line.startsWith("+++ ") ? line.trimEnd() : line))
+    .join("\n");
 }
 
 function stripPrefix(name: string): string {
@@ -162,10 +1025,10 @@ function stripPrefix(name: string): string {
   return name;
 }
 
-function parseSimplePatch(patch: string): Array<{ type: "add" | "update" | "delete"; path: string; content?: string }> {
+function parseSimplePatch(patch: string): SimplePatchOperation[] {
   const lines = patch.split(/\r?\n/);
   let index = 0;
-  const operations: Array<{ type: "add" | "update" | "delete"; path: string; content?: string }> = [];
+  const operations: SimplePatchOperation[] = [];
 
   if (lines[index]?.startsWith("*** Begin Patch")) {
     index += 1;
@@ -194,12 +1057,26 @@ function parseSimplePatch(patch: string): Array<{ type: "add" | "update" | "dele
     if (line.startsWith("*** Update File:")) {
       const filePath = line.replace("*** Update File:", "").trim();
       index += 1;
+      let moveTo: string | undefined;
+      if (lines[index]?.startsWith("*** Move to:")) {
+        moveTo = lines[index].replace("*** Move to:", "").trim();
+        index += 1;
+      }
       const contentLines: string[] = [];
-      while (index < lines.length && !lines[index].startsWith("*** ")) {
+      while (
+        index < lines.length &&
+        (!lines[index].startsWith("*** ") || lines[index].startsWith(END_OF_FILE_MARKER))
+      ) {
         contentLines.push(lines[index]);
         index += 1;
       }
-      operations.push({ type: "update", path: filePath, content: contentLines.join("\n") });
+      const operation: SimplePatchOperation = { type: "update", path: filePath, moveTo };
+      if (contentLines.some((content) => content.startsWith("@@"))) {
+        operation.hunks = parseSimpleHunks(filePath, contentLines);
+      } else if (!moveTo || contentLines.some((content) => content.trim())) {
+        operation.content = contentLines.join("\n");
+      }
+      operations.push(operation);
       continue;
     }
     if (line.startsWith("*** Delete File:")) {
@@ -215,6 +1092,132 @@ function parseSimplePatch(patch: string): Array<{ type: "add" | "update" | "dele
   return operations;
 }
 
+function parseSimpleHunks(filePath: string, lines: string[]): SimplePatchHunk[] {
+  const hunks: SimplePatchHunk[] = [];
+  let current: SimplePatchHunk | null = null;
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines = lines.slice(0, -1);
+  }
+  for (const line of lines) {
+    if (line.startsWith("@@")) {
+      current = { anchor: line.replace(/^@@\s*/, "").replace(/\s*@@$/, "").trim(), lines: [], endOfFile: false };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) {
+      throw new Error(`Hunk line before the first @@ in ${filePath}: ${line}`);
+    }
+    if (line.startsWith(END_OF_FILE_MARKER)) {
+      current.endOfFile = true;
+      continue;
+    }
+    const marker = line[0] ?? " ";
+    if (marker !== " " && marker !== "-" && marker !== "+") {
+      throw new Error(`Hunk lines in ${filePath} must start with " ", "-" or "+": ${line}`);
+    }
+    current.lines.push({ type: marker, text: line.slice(1) });
+  }
+  return hunks;
+}
+
+// Locates each hunk by its context rather than line numbers, tolerating whitespace drift.
+function applySimpleHunks(filePath: string, content: string, hunks: SimplePatchHunk[]): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const hasTrailingNewline = content.endsWith("\n");
+  let lines = content.length > 0 ? content.replace(/\r?\n$/, "").split(/\r?\n/) : [];
+  let cursor = 0;
+
+  for (const hunk of hunks) {
+    let start = cursor;
+    if (hunk.anchor) {
+      const anchorIndex = findAnchor(lines, hunk.anchor, cursor);
+      if (anchorIndex === -1) {
+        throw new Error(`Could not find "@@ ${hunk.anchor}" in ${filePath}`);
+      }
+      start = anchorIndex + 1;
+    }
+
+    const oldLines = hunk.lines.filter((line) => line.type !== "+").map((line) => line.text);
+    let matchIndex: number;
+    if (oldLines.length === 0) {
+      matchIndex = hunk.anchor ? start : lines.length;
+    } else {
+      const matches = findContext(lines, oldLines, hunk.anchor ? start - 1 : start, hunk.endOfFile);
+      if (matches.length === 0) {
+        const where = hunk.anchor ? ` after "@@ ${hunk.anchor}"` : "";
+        throw new Error(`Could not find the hunk context in ${filePath}${where}:\n${oldLines.join("\n")}`);
+      }
+      if (matches.length > 1 && !hunk.anchor) {
+        const places = matches.map((match) => match + 1).join(", ");
+        throw new Error(
+          `Hunk context in ${filePath} is ambiguous (matches lines ${places}); add an @@ anchor or more context lines`
+        );
+      }
+      matchIndex = matches[0];
+    }
+
+    const replacement: string[] = [];
+    let offset = 0;
+    for (const line of hunk.lines) {
+      if (line.type === "+") {
+        replacement.push(line.text);
+        continue;
+      }
+      if (line.type === " ") {
+        replacement.push(lines[matchIndex + offset]);
+      }
+      offset += 1;
+    }
+    lines = [...lines.slice(0, matchIndex), ...replacement, ...lines.slice(matchIndex + offset)];
+    cursor = matchIndex + replacement.length;
+  }
+
+  const joined = lines.join(eol);
+  return hasTrailingNewline || (content.length === 0 && joined.length > 0) ? `${joined}${eol}` : joined;
+}
+
+function findAnchor(lines: string[], anchor: string, from: number): number {
+  const target = normalizeWhitespace(anchor);
+  for (let index = from; index < lines.length; index += 1) {
+    if (normalizeWhitespace(lines[index]) === target) {
+      return index;
+    }
+  }
+  for (let index = from; index < lines.length; index += 1) {
+    if (normalizeWhitespace(lines[index]).includes(target)) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+// Tries an exact match first, then ignores trailing and finally all whitespace differences.
+function findContext(lines: string[], context: string[], from: number, endOfFile: boolean): number[] {
+  const normalizers = [
+    (value: string) => value,
+    (value: string) => value.trimEnd(),
+    (value: string) => normalizeWhitespace(value)
+  ];
+  for (const normalize of normalizers) {
+    const expected = context.map(normalize);
+    const matches: number[] = [];
+    const first = endOfFile ? Math.max(from, lines.length - context.length) : from;
+    for (let start = first; start + context.length <= lines.length; start += 1) {
+      if (expected.every((line, offset) => normalize(lines[start + offset]) === line)) {
+        matches.push(start);
+      }
+    }
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+  return [];
+}
+
+function normalizeWhitespace(value: string): string {
+  return value.trim().replace(/\s+/g, " ");
+}
+
 async function fileExists(target: string): Promise<boolean> {
   try {
     await fs.access(target);
@@ -1,6 +1,22 @@
-import { OllamaClient, type ToolDefinition } from "../llm/ollamaClient.js";
+import { OllamaClient, type ChatClient, type ToolDefinition } from "../llm/ollamaClient.js";
 import { webSearch, webFetch } from "./web.js";
-import { fsList, fsRead, fsWrite, fsApplyPatch } from "./fs.js";
+import path from "node:path";
+import {
+  fsList,
+  fsRead,
+  fsSearch,
+  fsWrite,
+  fsEdit,
+  fsApplyPatch,
+  fsMove,
+  fsCopy,
+  fsDelete,
+  fsMkdir,
+  getTrashDir,
+  patchTargets,
+  transferTargets
+} from "./fs.js";
+import type { CheckpointStore } from "./checkpoints.js";
 import { docSummarize } from "./doc.js";
 import type { LlmConfig } from "../util/config.js";
 
@@ -10,8 +26,21 @@ export interface ToolRegistry {
   writeTools: Set<string>;
 }
 
-export function createToolRegistry(workspaceRoot: string, llmConfig?: LlmConfig): ToolRegistry {
-  const docClient = llmConfig ? new OllamaClient(llmConfig) : undefined;
+export interface ToolRegistryOptions {
+  checkpoints?: CheckpointStore;
+  patchFuzz?: number;
+  trashDir?: string;
+}
+
+export function createToolRegistry(
+  workspaceRoot: string,
+  llmConfig?: LlmConfig,
+  summaryClient?: ChatClient,
+  options: ToolRegistryOptions = {}
+): ToolRegistry {
+  const { checkpoints } = options;
+  const trashDir = options.trashDir ?? getTrashDir(path.dirname(workspaceRoot));
+  const docClient = summaryClient ?? (llmConfig ? new OllamaClient(llmConfig) : undefined);
   const definitions: ToolDefinition[] = [
     {
       type: "function",
@@ -52,11 +81,17 @@ export function createToolRegistry(workspaceRoot: string, llmConfig?: LlmConfig)
       type: "function",
       function: {
         name: "fs_list",
-        description: "List files or directories in the workspace.",
+        description:
+          "List files or directories in the workspace, with sizes, modification times and a compact tree.\nSet recursive (with maxDepth) to walk subdirectories, or pattern (for example \"**/*.md\") to list matching files. Recursive and pattern listings skip entries ignored by .gitignore unless respectGitignore is false; a plain listing shows everything unless it is true.",
         parameters: {
           type: "object",
           properties: {
-            path: { type: "string" }
+            path: { type: "string" },
+            recursive: { type: "boolean" },
+            pattern: { type: "string" },
+            maxDepth: { type: "integer", minimum: 1, maximum: 50 },
+            maxEntries: { type: "integer", minimum: 1, maximum: 5000 },
+            respectGitignore: { type: "boolean" }
           },
           additionalProperties: false
         }
@@ -66,17 +101,43 @@ export function createToolRegistry(workspaceRoot: string, llmConfig?: LlmConfig)
       type: "function",
       function: {
         name: "fs_read",
-        description: "Read a file from the workspace.",
+        description:
+          "Read a text file from the workspace.\nLarge files are returned a page at a time: check truncated and pass nextOffset as offset to continue, or set offset/limit (1-based lines) to read a range. Binary files return only their type and size.",
         parameters: {
           type: "object",
           properties: {
-            path: { type: "string" }
+            path: { type: "string" },
+            offset: { type: "integer", minimum: 1 },
+            limit: { type: "integer", minimum: 1 },
+            maxBytes: { type: "integer", minimum: 1, maximum: 1048576 }
           },
           required: ["path"],
           additionalProperties: false
         }
       }
     },
+    {
+      type: "function",
+      function: {
+        name: "fs_search",
+        description:
+          "Search workspace file contents for a regex (or a literal string with literal: true) and return path, line and snippet for each match.\nUse glob (for example \"**/*.ts\" or \"*.md\") to filter files and contextLines to include surrounding lines. Binary files and .workshop are skipped.",
+        parameters: {
+          type: "object",
+          properties: {
+            pattern: { type: "string" },
+            path: { type: "string" },
+            glob: { type: "string" },
+            literal: { type: "boolean" },
+            ignoreCase: { type: "boolean" },
+            contextLines: { type: "integer", minimum: 0, maximum: 10 },
+            maxResults: { type: "integer", minimum: 1, maximum: 500 }
+          },
+          required: ["pattern"],
+          additionalProperties: false
+        }
+      }
+    },
     {
       type: "function",
       function: {
@@ -94,21 +155,107 @@ export function createToolRegistry(workspaceRoot: string, llmConfig?: LlmConfig)
         }
       }
     },
+    {
+      type: "function",
+      function: {
+        name: "fs_edit",
+        description:
+          "Replace an exact string in a workspace file and return a short diff.\nold_string must match the file exactly (including indentation) and be unique unless replace_all is set. Set dryRun to preview the diff without writing.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string" },
+            old_string: { type: "string" },
+            new_string: { type: "string" },
+            replace_all: { type: "boolean" },
+            dryRun: { type: "boolean" }
+          },
+          required: ["path", "old_string", "new_string"],
+          additionalProperties: false
+        }
+      }
+    },
     {
       type: "function",
       function: {
         name: "fs_apply_patch",
-        description: "Apply a patch to one or more workspace files.",
+        description:
+          "Apply a patch to one or more workspace files. Either every file changes or none do.\nSet dryRun to get per-file diffs and hunk status without writing anything.\nAccepts unified diffs or \"*** Begin Patch\" blocks. In \"*** Update File:\" sections, \"@@ <anchor line>\" starts a hunk of \" \" context, \"-\" removed and \"+\" added lines located by context; without @@ the section replaces the whole file. \"*** Move to: <path>\" after the Update line renames the file.",
         parameters: {
           type: "object",
           properties: {
-            patch: { type: "string" }
+            patch: { type: "string" },
+            dryRun: { type: "boolean" }
           },
           required: ["patch"],
           additionalProperties: false
         }
       }
     },
+    {
+      type: "function",
+      function: {
+        name: "fs_move",
+        description: "Move or rename a workspace file or directory. Fails if the destination exists unless overwrite is set for a file.",
+        parameters: {
+          type: "object",
+          properties: {
+            from: { type: "string" },
+            to: { type: "string" },
+            overwrite: { type: "boolean" }
+          },
+          required: ["from", "to"],
+          additionalProperties: false
+        }
+      }
+    },
+    {
+      type: "function",
+      function: {
+        name: "fs_copy",
+        description: "Copy a workspace file or directory. Fails if the destination exists unless overwrite is set for a file.",
+        parameters: {
+          type: "object",
+          properties: {
+            from: { type: "string" },
+            to: { type: "string" },
+            overwrite: { type: "boolean" }
+          },
+          required: ["from", "to"],
+          additionalProperties: false
+        }
+      }
+    },
+    {
+      type: "function",
+      function: {
+        name: "fs_delete",
+        description: "Delete a workspace file or directory by moving it to the recoverable .workshop/trash folder.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string" }
+          },
+          required: ["path"],
+          additionalProperties: false
+        }
+      }
+    },
+    {
+      type: "function",
+      function: {
+        name: "fs_mkdir",
+        description: "Create a workspace directory, including missing parent directories.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: { type: "string" }
+          },
+          required: ["path"],
+          additionalProperties: false
+        }
+      }
+    },
     {
       type: "function",
       function: {
@@ -144,11 +291,75 @@ export function createToolRegistry(workspaceRoot: string, llmConfig?: LlmConfig)
         maxChars: args.maxChars
       }),
     web_fetch: async (args: { url: string; maxChars?: number }) => webFetch(args.url, args.maxChars),
-    fs_list: async (args: { path?: string }) => fsList(workspaceRoot, args.path ?? "."),
-    fs_read: async (args: { path: string }) => fsRead(workspaceRoot, args.path),
-    fs_write: async (args: { path: string; content: string; overwrite?: boolean }) =>
-      fsWrite(workspaceRoot, args.path, args.content, args.overwrite ?? false),
-    fs_apply_patch: async (args: { patch: string }) => fsApplyPatch(workspaceRoot, args.patch),
+    fs_list: async (args: {
+      path?: string;
+      recursive?: boolean;
+      pattern?: string;
+      maxDepth?: number;
+      maxEntries?: number;
+      respectGitignore?: boolean;
+    }) =>
+      fsList(workspaceRoot, args.path ?? ".", {
+        recursive: args.recursive,
+        pattern: args.pattern,
+        maxDepth: args.maxDepth,
+        maxEntries: args.maxEntries,
+        respectGitignore: args.respectGitignore
+      }),
+    fs_read: async (args: { path: string; offset?: number; limit?: number; maxBytes?: number }) =>
+      fsRead(workspaceRoot, args.path, { offset: args.offset, limit: args.limit, maxBytes: args.maxBytes }),
+    fs_search: async (args: {
+      pattern: string;
+      path?: string;
+      glob?: string;
+      literal?: boolean;
+      ignoreCase?: boolean;
+      contextLines?: number;
+      maxResults?: number;
+    }) =>
+      fsSearch(workspaceRoot, args.pattern, {
+        path: args.path,
+        glob: args.glob,
+        literal: args.literal,
+        ignoreCase: args.ignoreCase,
+        contextLines: args.contextLines,
+        maxResults: args.maxResults
+      }),
+    fs_write: async (args: { path: string; content: string; overwrite?: boolean }) => {
+      await checkpoints?.snapshot([args.path]);
+      return fsWrite(workspaceRoot, args.path, args.content, args.overwrite ?? false);
+    },
+    fs_edit: async (args: { path: string; old_string: string; new_string: string; replace_all?: boolean; dryRun?: boolean }) => {
+      if (!args.dryRun) {
+        await checkpoints?.snapshot([args.path]);
+      }
+      return fsEdit(workspaceRoot, args.path, args.old_string, args.new_string, {
+        replaceAll: args.replace_all,
+        dryRun: args.dryRun
+      });
+    },
+    fs_apply_patch: async (args: { patch: string; dryRun?: boolean }) => {
+      if (!args.dryRun) {
+        await checkpoints?.snapshot(patchTargets(args.patch));
+      }
+      return fsApplyPatch(workspaceRoot, args.patch, { dryRun: args.dryRun, fuzzFactor: options.patchFuzz });
+    },
+    fs_move: async (args: { from: string; to: string; overwrite?: boolean }) => {
+      await checkpoints?.snapshot([args.from, ...(await transferTargets(workspaceRoot, args.from, args.to))]);
+      return fsMove(workspaceRoot, args.from, args.to, args.overwrite ?? false);
+    },
+    fs_copy: async (args: { from: string; to: string; overwrite?: boolean }) => {
+      await checkpoints?.snapshot(await transferTargets(workspaceRoot, args.from, args.to));
+      return fsCopy(workspaceRoot, args.from, args.to, args.overwrite ?? false);
+    },
+    fs_delete: async (args: { path: string }) => {
+      await checkpoints?.snapshot([args.path]);
+      return fsDelete(workspaceRoot, args.path, trashDir);
+    },
+    fs_mkdir: async (args: { path: string }) => {
+      await checkpoints?.snapshot([args.path]);
+      return fsMkdir(workspaceRoot, args.path);
+    },
     doc_summarize: async (args: { source: string; maxChars?: number; style?: "brief" | "detailed" | "bullets"; focus?: string }) =>
       docSummarize(workspaceRoot, {
         source: args.source,
@@ -158,7 +369,15 @@ export function createToolRegistry(workspaceRoot: string, llmConfig?: LlmConfig)
       }, docClient)
   };
 
-  const writeTools = new Set<string>(["fs_write", "fs_apply_patch"]);
+  const writeTools = new Set<string>([
+    "fs_write",
+    "fs_edit",
+    "fs_apply_patch",
+    "fs_move",
+    "fs_copy",
+    "fs_delete",
+    "fs_mkdir"
+  ]);
 
   return { definitions, handlers, writeTools };
 }
@@ -0,0 +1,300 @@
+import type { ToolDefinition } from "../llm/ollamaClient.js";
+
+export interface PreparedArguments {
+  args?: Record<string, unknown>;
+  repaired: boolean;
+  repairs: string[];
+  errors: string[];
+}
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+};
+
+export function prepareToolArguments(definition: ToolDefinition | undefined, raw: string | undefined): PreparedArguments {
+  const parsed = parseArguments(raw ?? "");
+  if (parsed.error) {
+    return { repaired: parsed.repairs.length > 0, repairs: parsed.repairs, errors: [parsed.error] };
+  }
+
+  if (!definition) {
+    return {
+      args: parsed.value as Record<string, unknown>,
+      repaired: parsed.repairs.length > 0,
+      repairs: parsed.repairs,
+      errors: []
+    };
+  }
+
+  const repairs = [...parsed.repairs];
+  const errors: string[] = [];
+  const value = coerceValue(definition.function.parameters as JsonSchema, parsed.value, "", repairs, errors);
+  return {
+    args: value as Record<string, unknown>,
+    repaired: repairs.length > 0,
+    repairs,
+    errors
+  };
+}
+
+export function parseArguments(raw: string): { value?: unknown; repairs: string[]; error?: string } {
+  const repairs: string[] = [];
+  let text = raw.trim();
+  if (!text) {
+    return { value: {}, repairs };
+  }
+
+  const direct = tryParse(text);
+  if (direct.ok) {
+    return unwrapArguments(direct.value, repairs);
+  }
+
+  const fenced = text.match(/^```[a-zA-Z]*\s*([\s\S]*?)\s*```$/);
+  if (fenced) {
+    text = fenced[1].trim();
+    repairs.push("stripped code fence");
+  }
+
+  const extracted = extractObject(text);
+  if (extracted !== null && extracted !== text) {
+    text = extracted;
+    repairs.push("removed text outside the JSON object");
+  }
+
+  const withoutTrailingCommas = removeTrailingCommas(text);
+  if (withoutTrailingCommas !== text) {
+    text = withoutTrailingCommas;
+    repairs.push("removed trailing commas");
+  }
+
+  const repaired = tryParse(text);
+  if (repaired.ok) {
+    return unwrapArguments(repaired.value, repairs);
+  }
+
+  return { repairs, error: `Arguments are not valid JSON: ${truncate(raw, 200)}` };
+}
+
+function unwrapArguments(value: unknown, repairs: string[]): { value?: unknown; repairs: string[]; error?: string } {
+  // Some models double-encode the arguments object as a JSON string.
+  if (typeof value === "string") {
+    const inner = tryParse(value);
+    if (inner.ok && isPlainObject(inner.value)) {
+      repairs.push("decoded double-encoded JSON");
+      return { value: inner.value, repairs };
+    }
+  }
+  if (!isPlainObject(value)) {
+    return { repairs, error: "Arguments must be a JSON object" };
+  }
+  return { value, repairs };
+}
+
+function coerceValue(schema: JsonSchema, value: unknown, at: string, repairs: string[], errors: string[]): unknown {
+  const label = at || "arguments";
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    const coerced = coerceScalar(types, value);
+    if (coerced.ok) {
+      repairs.push(`coerced ${label} to ${typeof coerced.value}`);
+      value = coerced.value;
+    } else {
+      errors.push(`${label} must be ${types.join(" or ")}, got ${describeType(value)}`);
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (isPlainObject(value) && (schema.properties || schema.required)) {
+    const properties = schema.properties ?? {};
+    const output: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const childSchema = properties[key];
+      const childPath = at ? `${at}.${key}` : key;
+      if (!childSchema) {
+        if (schema.additionalProperties === false) {
+          repairs.push(`dropped unknown key ${childPath}`);
+          continue;
+        }
+        output[key] = item;
+        continue;
+      }
+      if (item === null && !typeAllows(childSchema, "null")) {
+        repairs.push(`dropped null ${childPath}`);
+        continue;
+      }
+      output[key] = coerceValue(childSchema, item, childPath, repairs, errors);
+    }
+    for (const key of schema.required ?? []) {
+      if (output[key] === undefined) {
+        errors.push(`missing required ${at ? `${at}.${key}` : key}`);
+      }
+    }
+    return output;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, index) => coerceValue(schema.items!, item, `${label}[${index}]`, repairs, errors));
+  }
+
+  return value;
+}
+
+function coerceScalar(types: string[], value: unknown): { ok: true; value: unknown } | { ok: false } {
+  for (const type of types) {
+    if ((type === "integer" || type === "number") && typeof value === "string" && value.trim()) {
+      const parsed = Number(value.trim());
+      if (Number.isFinite(parsed) && (type === "number" || Number.isInteger(parsed))) {
+        return { ok: true, value: parsed };
+      }
+    }
+    if (type === "boolean" && typeof value === "string") {
+      const normalized = value.trim().toLowerCase();
+      if (normalized === "true" || normalized === "false") {
+        return { ok: true, value: normalized === "true" };
+      }
+    }
+    if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+      return { ok: true, value: String(value) };
+    }
+    if (type === "array" && typeof value === "string") {
+      const parsed = tryParse(value);
+      if (parsed.ok && Array.isArray(parsed.value)) {
+        return { ok: true, value: parsed.value };
+      }
+    }
+  }
+  return { ok: false };
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function typeAllows(schema: JsonSchema, type: string): boolean {
+  if (!schema.type) {
+    return true;
+  }
+  return Array.isArray(schema.type) ? schema.type.includes(type) : schema.type === type;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function extractObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start < 0) {
+    return null;
+  }
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === "\"") {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === "\"") {
+      inString = true;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) {
+        return text.slice(start, index + 1);
+      }
+    }
+  }
+  return null;
+}
+
+// Drops commas that directly precede "}" or "]", leaving string values untouched.
+function removeTrailingCommas(text: string): string {
+  let output = "";
+  let inString = false;
+  let escaped = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === "\"") {
+        inString = false;
+      }
+    } else if (char === "\"") {
+      inString = true;
+    } else if (char === "," && /^\s*[}\]]/.test(text.slice(index + 1))) {
+      continue;
+    }
+    output += char;
+  }
+  return output;
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}...` : text;
+}
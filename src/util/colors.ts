@@ -38,3 +38,24 @@ export const colors = {
 export function stripAnsi(input: string): string {
   return input.replace(/\x1b\[[0-9;]*m/g, "");
 }
+
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("--- ") || line.startsWith("+++ ")) {
+        return colors.info(line);
+      }
+      if (line.startsWith("@@")) {
+        return colors.tool(line);
+      }
+      if (line.startsWith("+")) {
+        return colors.success(line);
+      }
+      if (line.startsWith("-")) {
+        return colors.error(line);
+      }
+      return line;
+    })
+    .join("\n");
+}
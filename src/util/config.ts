@@ -2,18 +2,49 @@ import path from "node:path";
 import fs from "node:fs/promises";
 import os from "node:os";
 
+export type LlmProvider = "ollama" | "ollama-native" | "openai";
+export type RoutingMode = "model" | "keywords";
+
 export interface LlmConfig {
-  provider: "ollama" | "openai";
+  provider: LlmProvider;
   baseUrl: string;
   apiKey: string;
   model: string;
+  contextWindow: number;
+  numCtx?: number;
+  numPredict?: number;
+  keepAlive?: string;
+  format?: string;
+  timeoutMs: number;
+  firstTokenTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+}
+
+export interface ModelRoles {
+  main: string[];
+  agents: string;
+  docSummarize: string;
+  router: string;
+}
+
+export interface ModelsConfig {
+  profiles: Record<string, Partial<LlmConfig>>;
+  roles: ModelRoles;
 }
 
 export interface WorkshopConfig {
   llm: LlmConfig;
+  models: ModelsConfig;
   agent: {
     autoApprove: boolean;
     maxSteps: number;
+    compactThreshold: number;
+    keepRecentTurns: number;
+    routing: RoutingMode;
+    routingMinConfidence: number;
+    patchFuzz: number;
+    toolConcurrency: number;
   };
   updates: {
     checkOnStart: boolean;
@@ -30,6 +61,7 @@ export interface WorkshopConfig {
 
 export type PartialWorkshopConfig = Partial<{
   llm: Partial<LlmConfig>;
+  models: Partial<{ profiles: Record<string, Partial<LlmConfig>>; roles: Partial<ModelRoles> }>;
   agent: Partial<WorkshopConfig["agent"]>;
   updates: Partial<WorkshopConfig["updates"]>;
   speech: Partial<WorkshopConfig["speech"]>;
@@ -41,11 +73,31 @@ export const DEFAULT_CONFIG: WorkshopConfig = {
     provider: "ollama",
     baseUrl: "http://localhost:11434/v1",
     apiKey: "ollama",
-    model: "glm-4.7-flash"
+    model: "glm-4.7-flash",
+    contextWindow: 8192,
+    timeoutMs: 120000,
+    firstTokenTimeoutMs: 90000,
+    maxRetries: 2,
+    retryBaseDelayMs: 1000
+  },
+  models: {
+    profiles: {},
+    roles: {
+      main: ["default"],
+      agents: "default",
+      docSummarize: "default",
+      router: "default"
+    }
   },
   agent: {
     autoApprove: false,
-    maxSteps: 12
+    maxSteps: 12,
+    compactThreshold: 0.8,
+    keepRecentTurns: 4,
+    routing: "model",
+    routingMinConfidence: 0.6,
+    patchFuzz: 2,
+    toolConcurrency: 4
   },
   updates: {
     checkOnStart: true
@@ -60,6 +112,14 @@ export const DEFAULT_CONFIG: WorkshopConfig = {
   }
 };
 
+export const DEFAULT_PROFILE = "default";
+
+const PROVIDER_DEFAULTS: Record<LlmProvider, { baseUrl: string; apiKey: string; model: string }> = {
+  ollama: { baseUrl: "http://localhost:11434/v1", apiKey: "ollama", model: DEFAULT_CONFIG.llm.model },
+  "ollama-native": { baseUrl: "http://localhost:11434", apiKey: "ollama", model: DEFAULT_CONFIG.llm.model },
+  openai: { baseUrl: "https://api.openai.com/v1", apiKey: "", model: "gpt-4o-mini" }
+};
+
 export async function loadConfig(baseDir: string): Promise<WorkshopConfig> {
   const fileConfig = await readConfigFile(baseDir);
   const envConfig = readEnvConfig();
@@ -73,6 +133,10 @@ export function mergeConfig(
 ): WorkshopConfig {
   const merged: WorkshopConfig = {
     llm: { ...base.llm },
+    models: {
+      profiles: { ...base.models.profiles },
+      roles: { ...base.models.roles, main: [...base.models.roles.main] }
+    },
     agent: { ...base.agent },
     updates: { ...base.updates },
     speech: { ...base.speech },
@@ -85,7 +149,7 @@ export function mergeConfig(
     }
     if (override.llm) {
       if (override.llm.provider !== undefined) {
-        merged.llm.provider = override.llm.provider as "ollama" | "openai";
+        merged.llm.provider = override.llm.provider as LlmProvider;
       }
       if (override.llm.baseUrl !== undefined) {
         merged.llm.baseUrl = override.llm.baseUrl;
@@ -96,6 +160,51 @@ export function mergeConfig(
       if (override.llm.model !== undefined) {
         merged.llm.model = override.llm.model;
       }
+      if (override.llm.contextWindow !== undefined) {
+        merged.llm.contextWindow = override.llm.contextWindow;
+      }
+      if (override.llm.numCtx !== undefined) {
+        merged.llm.numCtx = override.llm.numCtx;
+      }
+      if (override.llm.numPredict !== undefined) {
+        merged.llm.numPredict = override.llm.numPredict;
+      }
+      if (override.llm.keepAlive !== undefined) {
+        merged.llm.keepAlive = override.llm.keepAlive;
+      }
+      if (override.llm.format !== undefined) {
+        merged.llm.format = override.llm.format;
+      }
+      if (override.llm.timeoutMs !== undefined) {
+        merged.llm.timeoutMs = override.llm.timeoutMs;
+      }
+      if (override.llm.firstTokenTimeoutMs !== undefined) {
+        merged.llm.firstTokenTimeoutMs = override.llm.firstTokenTimeoutMs;
+      }
+      if (override.llm.maxRetries !== undefined) {
+        merged.llm.maxRetries = override.llm.maxRetries;
+      }
+      if (override.llm.retryBaseDelayMs !== undefined) {
+        merged.llm.retryBaseDelayMs = override.llm.retryBaseDelayMs;
+      }
+    }
+    if (override.models) {
+      for (const [name, profile] of Object.entries(override.models.profiles ?? {})) {
+        merged.models.profiles[name] = { ...merged.models.profiles[name], ...stripUndefined(profile) };
+      }
+      const roles = override.models.roles;
+      if (roles?.main !== undefined && roles.main.length > 0) {
+        merged.models.roles.main = [...roles.main];
+      }
+      if (roles?.agents !== undefined) {
+        merged.models.roles.agents = roles.agents;
+      }
+      if (roles?.docSummarize !== undefined) {
+        merged.models.roles.docSummarize = roles.docSummarize;
+      }
+      if (roles?.router !== undefined) {
+        merged.models.roles.router = roles.router;
+      }
     }
     if (override.agent) {
       if (override.agent.autoApprove !== undefined) {
@@ -104,6 +213,24 @@ export function mergeConfig(
       if (override.agent.maxSteps !== undefined) {
         merged.agent.maxSteps = override.agent.maxSteps;
       }
+      if (override.agent.compactThreshold !== undefined) {
+        merged.agent.compactThreshold = override.agent.compactThreshold;
+      }
+      if (override.agent.keepRecentTurns !== undefined) {
+        merged.agent.keepRecentTurns = override.agent.keepRecentTurns;
+      }
+      if (override.agent.routing !== undefined) {
+        merged.agent.routing = override.agent.routing;
+      }
+      if (override.agent.routingMinConfidence !== undefined) {
+        merged.agent.routingMinConfidence = override.agent.routingMinConfidence;
+      }
+      if (override.agent.patchFuzz !== undefined) {
+        merged.agent.patchFuzz = override.agent.patchFuzz;
+      }
+      if (override.agent.toolConcurrency !== undefined) {
+        merged.agent.toolConcurrency = override.agent.toolConcurrency;
+      }
     }
     if (override.updates) {
       if (override.updates.checkOnStart !== undefined) {
@@ -162,12 +289,28 @@ function sanitizeConfig(input: unknown): PartialWorkshopConfig {
   const config: PartialWorkshopConfig = {};
 
   if (isObject(data.llm)) {
-    const llm = data.llm as Record<string, unknown>;
-    config.llm = {
-      provider: asProvider(llm.provider),
-      baseUrl: asString(llm.baseUrl),
-      apiKey: asString(llm.apiKey),
-      model: asString(llm.model)
+    config.llm = sanitizeLlm(data.llm as Record<string, unknown>);
+  }
+
+  if (isObject(data.models)) {
+    const models = data.models as Record<string, unknown>;
+    const profiles: Record<string, Partial<LlmConfig>> = {};
+    if (isObject(models.profiles)) {
+      for (const [name, profile] of Object.entries(models.profiles as Record<string, unknown>)) {
+        if (isObject(profile) && name !== DEFAULT_PROFILE) {
+          profiles[name] = sanitizeLlm(profile);
+        }
+      }
+    }
+    const roles = isObject(models.roles) ? (models.roles as Record<string, unknown>) : {};
+    config.models = {
+      profiles,
+      roles: {
+        main: asStringList(roles.main),
+        agents: asString(roles.agents),
+        docSummarize: asString(roles.docSummarize),
+        router: asString(roles.router)
+      }
     };
   }
 
@@ -175,7 +318,13 @@ function sanitizeConfig(input: unknown): PartialWorkshopConfig {
     const agent = data.agent as Record<string, unknown>;
     config.agent = {
       autoApprove: asBoolean(agent.autoApprove),
-      maxSteps: asNumber(agent.maxSteps)
+      maxSteps: asNumber(agent.maxSteps),
+      compactThreshold: asNumber(agent.compactThreshold),
+      keepRecentTurns: asNumber(agent.keepRecentTurns),
+      routing: asRoutingMode(agent.routing),
+      routingMinConfidence: asNumber(agent.routingMinConfidence),
+      patchFuzz: asNumber(agent.patchFuzz),
+      toolConcurrency: asNumber(agent.toolConcurrency)
     };
   }
 
@@ -205,6 +354,24 @@ function sanitizeConfig(input: unknown): PartialWorkshopConfig {
   return config;
 }
 
+function sanitizeLlm(llm: Record<string, unknown>): Partial<LlmConfig> {
+  return {
+    provider: asProvider(llm.provider),
+    baseUrl: asString(llm.baseUrl),
+    apiKey: asString(llm.apiKey),
+    model: asString(llm.model),
+    contextWindow: asNumber(llm.contextWindow),
+    numCtx: asNumber(llm.numCtx),
+    numPredict: asNumber(llm.numPredict),
+    keepAlive: asString(typeof llm.keepAlive === "number" ? String(llm.keepAlive) : llm.keepAlive),
+    format: asString(llm.format),
+    timeoutMs: asNumber(llm.timeoutMs),
+    firstTokenTimeoutMs: asNumber(llm.firstTokenTimeoutMs),
+    maxRetries: asNumber(llm.maxRetries),
+    retryBaseDelayMs: asNumber(llm.retryBaseDelayMs)
+  };
+}
+
 function readEnvConfig(): PartialWorkshopConfig {
   const config: PartialWorkshopConfig = {};
 
@@ -212,21 +379,59 @@ function readEnvConfig(): PartialWorkshopConfig {
   const baseUrl = envString("WORKSHOP_BASE_URL");
   const apiKey = envString("WORKSHOP_API_KEY");
   const model = envString("WORKSHOP_MODEL");
-  if (provider || baseUrl || apiKey || model) {
+  const contextWindow = envNumber("WORKSHOP_CONTEXT_WINDOW");
+  const numCtx = envNumber("WORKSHOP_NUM_CTX");
+  const numPredict = envNumber("WORKSHOP_NUM_PREDICT");
+  const keepAlive = envString("WORKSHOP_KEEP_ALIVE");
+  const timeoutMs = envNumber("WORKSHOP_LLM_TIMEOUT_MS");
+  const firstTokenTimeoutMs = envNumber("WORKSHOP_LLM_FIRST_TOKEN_TIMEOUT_MS");
+  const maxRetries = envNumber("WORKSHOP_LLM_MAX_RETRIES");
+  if (
+    provider ||
+    baseUrl ||
+    apiKey ||
+    model ||
+    contextWindow !== undefined ||
+    numCtx !== undefined ||
+    numPredict !== undefined ||
+    keepAlive ||
+    timeoutMs !== undefined ||
+    firstTokenTimeoutMs !== undefined ||
+    maxRetries !== undefined
+  ) {
     config.llm = {
       provider: provider ?? undefined,
       baseUrl: baseUrl ?? undefined,
       apiKey: apiKey ?? undefined,
-      model: model ?? undefined
+      model: model ?? undefined,
+      contextWindow,
+      numCtx,
+      numPredict,
+      keepAlive: keepAlive ?? undefined,
+      timeoutMs,
+      firstTokenTimeoutMs,
+      maxRetries
     };
   }
 
   const autoApprove = envBoolean("WORKSHOP_AUTO_APPROVE");
   const maxSteps = envNumber("WORKSHOP_MAX_STEPS");
-  if (autoApprove !== undefined || maxSteps !== undefined) {
+  const routing = asRoutingMode(process.env.WORKSHOP_ROUTING);
+  const patchFuzz = envNumber("WORKSHOP_PATCH_FUZZ");
+  const toolConcurrency = envNumber("WORKSHOP_TOOL_CONCURRENCY");
+  if (
+    autoApprove !== undefined ||
+    maxSteps !== undefined ||
+    routing !== undefined ||
+    patchFuzz !== undefined ||
+    toolConcurrency !== undefined
+  ) {
     config.agent = {
       autoApprove,
-      maxSteps
+      maxSteps,
+      routing,
+      patchFuzz,
+      toolConcurrency
     };
   }
 
@@ -264,33 +469,58 @@ function applyProviderDefaults(
   const modelExplicit = Boolean(fileConfig?.llm?.model ?? envConfig.llm?.model);
   const apiKeyExplicit = Boolean(fileConfig?.llm?.apiKey ?? envConfig.llm?.apiKey);
 
-  if (provider === "openai") {
-    if (!baseUrlExplicit) {
-      merged.llm.baseUrl = "https://api.openai.com/v1";
-    }
-    if (!modelExplicit) {
-      merged.llm.model = "gpt-4o-mini";
-    }
-    if (!apiKeyExplicit) {
-      merged.llm.apiKey = "";
-    }
+  const defaults = PROVIDER_DEFAULTS[provider];
+  if (!baseUrlExplicit) {
+    merged.llm.baseUrl = defaults.baseUrl;
   }
-
-  if (provider === "ollama") {
-    if (!baseUrlExplicit) {
-      merged.llm.baseUrl = "http://localhost:11434/v1";
-    }
-    if (!modelExplicit) {
-      merged.llm.model = DEFAULT_CONFIG.llm.model;
-    }
-    if (!apiKeyExplicit) {
-      merged.llm.apiKey = "ollama";
-    }
+  if (!modelExplicit) {
+    merged.llm.model = defaults.model;
+  }
+  if (!apiKeyExplicit) {
+    merged.llm.apiKey = defaults.apiKey;
   }
 
   return merged;
 }
 
+export function resolveModelProfile(llm: LlmConfig, models: ModelsConfig | undefined, name: string): LlmConfig {
+  if (name === DEFAULT_PROFILE) {
+    return { ...llm };
+  }
+  const profile = models?.profiles[name];
+  if (!profile) {
+    throw new Error(`Unknown model profile: ${name}`);
+  }
+  // A profile that switches provider must not inherit the base endpoint or key.
+  const providerDefaults =
+    profile.provider && profile.provider !== llm.provider ? PROVIDER_DEFAULTS[profile.provider] : {};
+  return { ...llm, ...providerDefaults, ...stripUndefined(profile) };
+}
+
+export function resolveRoleProfiles(
+  llm: LlmConfig,
+  models: ModelsConfig | undefined,
+  role: keyof ModelRoles
+): Array<{ name: string; config: LlmConfig }> {
+  const roles = models?.roles ?? DEFAULT_CONFIG.models.roles;
+  const names = role === "main" ? roles.main : [roles[role]];
+  const resolved = names.length > 0 ? names : [DEFAULT_PROFILE];
+  return resolved.map((name) => ({ name, config: resolveModelProfile(llm, models, name) }));
+}
+
+export function resolveModelSelection(
+  llm: LlmConfig,
+  models: ModelsConfig | undefined,
+  current: LlmConfig,
+  name: string
+): { name: string; config: LlmConfig } {
+  if (name === DEFAULT_PROFILE || models?.profiles[name]) {
+    return { name, config: resolveModelProfile(llm, models, name) };
+  }
+  // Anything that is not a profile is a model served by the current endpoint.
+  return { name, config: { ...current, model: name } };
+}
+
 export function getPrimaryConfigPath(baseDir: string): string {
   return path.join(baseDir, "workshop.config.json");
 }
@@ -311,6 +541,11 @@ export function redactConfig(config: WorkshopConfig): WorkshopConfig {
   if (copy.llm.apiKey) {
     copy.llm.apiKey = "***";
   }
+  for (const profile of Object.values(copy.models.profiles)) {
+    if (profile.apiKey) {
+      profile.apiKey = "***";
+    }
+  }
   return copy;
 }
 
@@ -350,7 +585,29 @@ function asString(value: unknown): string | undefined {
   return undefined;
 }
 
-function asProvider(value: unknown): "ollama" | "openai" | undefined {
+function asStringList(value: unknown): string[] | undefined {
+  if (typeof value === "string") {
+    const items = value.split(",").map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => asString(item)).filter((item): item is string => Boolean(item));
+    return items.length > 0 ? items : undefined;
+  }
+  return undefined;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  const output: Partial<T> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== undefined) {
+      (output as Record<string, unknown>)[key] = item;
+    }
+  }
+  return output;
+}
+
+function asProvider(value: unknown): LlmProvider | undefined {
   if (typeof value !== "string") {
     return undefined;
   }
@@ -358,12 +615,23 @@ function asProvider(value: unknown): "ollama" | "openai" | undefined {
   if (normalized === "ollama") {
     return "ollama";
   }
+  if (normalized === "ollama-native" || normalized === "ollama_native") {
+    return "ollama-native";
+  }
   if (normalized === "openai") {
     return "openai";
   }
   return undefined;
 }
 
+function asRoutingMode(value: unknown): RoutingMode | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  return normalized === "model" || normalized === "keywords" ? normalized : undefined;
+}
+
 function asNumber(value: unknown): number | undefined {
   if (typeof value === "number" && Number.isFinite(value)) {
     return value;
@@ -0,0 +1,95 @@
+// Supports *, **, ?, [abc] and {a,b}. Patterns without a "/" match the file name at any depth.
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+  const anchored = normalized.includes("/") ? normalized.replace(/^\//, "") : `**/${normalized}`;
+  let source = "";
+  let braceDepth = 0;
+
+  for (let index = 0; index < anchored.length; index += 1) {
+    const char = anchored[index];
+    if (char === "*") {
+      if (anchored[index + 1] === "*") {
+        const slashAfter = anchored[index + 2] === "/";
+        source += slashAfter ? "(?:.*/)?" : ".*";
+        index += slashAfter ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = anchored.indexOf("]", index + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        const body = anchored.slice(index + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        index = end;
+      }
+    } else if (char === "{") {
+      braceDepth += 1;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(relativePath: string, pattern: string | RegExp): boolean {
+  const regex = typeof pattern === "string" ? globToRegExp(pattern) : pattern;
+  return regex.test(relativePath.replace(/\\/g, "/"));
+}
+
+export interface IgnoreRule {
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  dirOnly: boolean;
+}
+
+// A .gitignore subset: comments, "!" negation, trailing "/" for directories and "/"-anchored patterns.
+export function parseIgnoreRules(content: string, base = ""): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.trimEnd();
+    if (!line || line.startsWith("#")) {
+      continue;
+    }
+    const negated = line.startsWith("!");
+    if (negated) {
+      line = line.slice(1);
+    }
+    const dirOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    if (!line) {
+      continue;
+    }
+    const anchored = line.startsWith("/") || line.includes("/");
+    rules.push({ base, regex: globToRegExp(anchored ? `/${line.replace(/^\//, "")}` : line), negated, dirOnly });
+  }
+  return rules;
+}
+
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) {
+      continue;
+    }
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const candidate = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.regex.test(candidate)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
@@ -6,8 +6,12 @@ export interface SessionLogger {
   log: (entry: unknown) => Promise<void>;
 }
 
+export function getSessionsDir(baseDir: string): string {
+  return path.join(baseDir, ".workshop", "sessions");
+}
+
 export async function createSessionLogger(baseDir: string): Promise<SessionLogger> {
-  const sessionsDir = path.join(baseDir, ".workshop", "sessions");
+  const sessionsDir = getSessionsDir(baseDir);
   await fs.mkdir(sessionsDir, { recursive: true });
   const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
   const filePath = path.join(sessionsDir, `${timestamp}.jsonl`);
@@ -1,3 +1,7 @@
+import type { ModelInfo } from "../llm/ollamaClient.js";
+import type { CheckpointInfo } from "../tools/checkpoints.js";
+import type { TokenUsage } from "./stats.js";
+
 export interface RemoteClientOptions {
   baseUrl: string;
   token?: string;
@@ -10,9 +14,13 @@ export interface RemoteSession {
     message: string,
     onToken?: (token: string) => void,
     onAgent?: (event: { name: string; content: string }) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void,
+    agent?: string
   ) => Promise<string>;
   reset: () => Promise<void>;
+  listModels: () => Promise<{ current: string; models: ModelInfo[] }>;
+  undo: (checkpointId?: string) => Promise<CheckpointInfo[]>;
 }
 
 export function createRemoteSession(options: RemoteClientOptions): RemoteSession {
@@ -22,9 +30,14 @@ export function createRemoteSession(options: RemoteClientOptions): RemoteSession
     message: string,
     onToken?: (token: string) => void,
     onAgent?: (event: { name: string; content: string }) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onUsage?: (usage: TokenUsage) => void,
+    agent?: string
   ): Promise<string> => {
     const payload: Record<string, unknown> = { message };
+    if (agent) {
+      payload.agent = agent;
+    }
     if (sessionId) {
       payload.sessionId = sessionId;
     }
@@ -53,6 +66,12 @@ export function createRemoteSession(options: RemoteClientOptions): RemoteSession
         onToken?.(event.token);
       } else if (event.type === "agent" && typeof event.name === "string" && typeof event.content === "string") {
         onAgent?.({ name: event.name, content: event.content });
+      } else if (event.type === "usage" && typeof event.promptTokens === "number") {
+        onUsage?.({
+          promptTokens: event.promptTokens,
+          completionTokens: Number(event.completionTokens) || 0,
+          estimated: Boolean(event.estimated)
+        });
       } else if (event.type === "error") {
         throw new Error(event.message || "Remote error");
       }
@@ -71,7 +90,42 @@ export function createRemoteSession(options: RemoteClientOptions): RemoteSession
     });
   };
 
-  return { sessionId, send, reset };
+  const listModels = async () => {
+    const url = new URL("/models", options.baseUrl);
+    if (sessionId) {
+      url.searchParams.set("sessionId", sessionId);
+    }
+    const response = await fetch(url.toString(), {
+      headers: buildHeaders(options)
+    });
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(text || `Remote error ${response.status}`);
+    }
+    return (await response.json()) as { current: string; models: ModelInfo[] };
+  };
+
+  const undo = async (checkpointId?: string) => {
+    if (!sessionId) {
+      throw new Error("No remote session yet; send a message first.");
+    }
+    const payload: Record<string, unknown> = { sessionId };
+    if (checkpointId) {
+      payload.checkpoint = checkpointId;
+    }
+    const response = await fetch(new URL("/undo", options.baseUrl).toString(), {
+      method: "POST",
+      headers: buildHeaders(options),
+      body: JSON.stringify(payload)
+    });
+    const data = (await response.json().catch(() => ({}))) as { restored?: CheckpointInfo[]; error?: string };
+    if (!response.ok) {
+      throw new Error(data.error || `Remote error ${response.status}`);
+    }
+    return data.restored ?? [];
+  };
+
+  return { sessionId, send, reset, listModels, undo };
 }
 
 function buildHeaders(options: RemoteClientOptions): Record<string, string> {
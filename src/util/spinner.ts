@@ -5,6 +5,7 @@ export interface Spinner {
   start: () => void;
   stop: () => void;
   isSpinning: () => boolean;
+  setText: (text: string) => void;
 }
 
 const frames = ["|", "/", "-", "\\"];
@@ -17,12 +18,15 @@ export function createSpinner(
     return {
       start: () => {},
       stop: () => {},
-      isSpinning: () => false
+      isSpinning: () => false,
+      setText: () => {}
     };
   }
 
+  const baseText = text;
   let timer: NodeJS.Timeout | null = null;
   let frameIndex = 0;
+  let clearWidth = stripAnsi(text).length + 2;
 
   const render = () => {
     const frame = frames[frameIndex];
@@ -41,18 +45,29 @@ export function createSpinner(
   };
 
   const stop = () => {
+    text = baseText;
     if (!timer) {
       return;
     }
     clearInterval(timer);
     timer = null;
-    const clearWidth = stripAnsi(text).length + 2;
     stdout.write(`\r${" ".repeat(clearWidth)}\r`);
+    clearWidth = stripAnsi(text).length + 2;
+  };
+
+  // Temporary status text; stop() restores the original text.
+  const setText = (next: string) => {
+    if (timer) {
+      stdout.write(`\r${" ".repeat(clearWidth)}\r`);
+    }
+    text = next;
+    clearWidth = Math.max(clearWidth, stripAnsi(next).length + 2);
   };
 
   return {
     start,
     stop,
-    isSpinning: () => timer !== null
+    isSpinning: () => timer !== null,
+    setText
   };
 }
@@ -1,3 +1,9 @@
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;
+}
+
 export interface StatsSnapshot {
   inputTokens: number;
   outputTokens: number;
@@ -6,6 +12,7 @@ export interface StatsSnapshot {
   outputTokensPerSecond: number;
   lastResponseTokens: number;
   lastResponseTokensPerSecond: number;
+  estimated: boolean;
 }
 
 export class ConversationStats {
@@ -16,16 +23,21 @@ export class ConversationStats {
   private lastResponseStart: number | null = null;
   private lastResponseTokens = 0;
   private lastResponseDurationSec = 0;
+  private pendingInputEstimate = 0;
+  private responseUsage: { promptTokens: number; completionTokens: number } | null = null;
+  private estimated = false;
 
   addInput(text: string): number {
     const tokens = estimateTokens(text);
     this.inputTokens += tokens;
+    this.pendingInputEstimate += tokens;
     return tokens;
   }
 
   startResponse(): void {
     this.lastResponseStart = Date.now();
     this.lastResponseTokens = 0;
+    this.responseUsage = null;
     if (!this.outputStartTime) {
       this.outputStartTime = this.lastResponseStart;
     }
@@ -38,7 +50,27 @@ export class ConversationStats {
     return tokens;
   }
 
+  addUsage(usage: TokenUsage): void {
+    if (usage.estimated) {
+      return;
+    }
+    const current = this.responseUsage ?? { promptTokens: 0, completionTokens: 0 };
+    current.promptTokens += usage.promptTokens;
+    current.completionTokens += usage.completionTokens;
+    this.responseUsage = current;
+  }
+
   finishResponse(): void {
+    // Provider-reported usage replaces the chars/4 estimates made while the response streamed.
+    if (this.responseUsage) {
+      this.inputTokens += this.responseUsage.promptTokens - this.pendingInputEstimate;
+      this.outputTokens += this.responseUsage.completionTokens - this.lastResponseTokens;
+      this.lastResponseTokens = this.responseUsage.completionTokens;
+      this.responseUsage = null;
+    } else {
+      this.estimated = true;
+    }
+    this.pendingInputEstimate = 0;
     if (this.lastResponseStart) {
       this.lastResponseDurationSec = (Date.now() - this.lastResponseStart) / 1000;
     }
@@ -59,7 +91,8 @@ export class ConversationStats {
       elapsedSeconds,
       outputTokensPerSecond,
       lastResponseTokens: this.lastResponseTokens,
-      lastResponseTokensPerSecond
+      lastResponseTokensPerSecond,
+      estimated: this.estimated
     };
   }
 
@@ -71,6 +104,9 @@ export class ConversationStats {
     this.lastResponseStart = null;
     this.lastResponseTokens = 0;
     this.lastResponseDurationSec = 0;
+    this.pendingInputEstimate = 0;
+    this.responseUsage = null;
+    this.estimated = false;
   }
 }
 
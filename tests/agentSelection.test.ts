@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { createAgentSession } from "../src/agent/loop.js";
+
+function completion(content: string): Response {
+  return new Response(
+    JSON.stringify({ id: "c", choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] }),
+    { status: 200 }
+  );
+}
+
+async function makeSession(agentOutput: string[]) {
+  const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-select-"));
+  return createAgentSession({
+    autoApprove: false,
+    maxSteps: 2,
+    baseDir,
+    routing: "keywords",
+    onAgent: (event) => agentOutput.push(event.name)
+  });
+}
+
+describe("explicit agent selection", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs the selected agent even when no rule matches", async () => {
+    const fetchMock = vi.fn(async () => completion(fetchMock.mock.calls.length === 1 ? "Dear all," : "Here is a draft."));
+    vi.stubGlobal("fetch", fetchMock);
+    const agentOutput: string[] = [];
+    const session = await makeSession(agentOutput);
+
+    await session.runTurn("tell everyone we ship friday", { agent: "email_writer" });
+    expect(agentOutput).toEqual(["Email Writer"]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects unknown agents before touching the conversation", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => completion("unused")));
+    const session = await makeSession([]);
+
+    await expect(session.runTurn("hi", { agent: "translator" })).rejects.toThrow('Unknown agent "translator"');
+    expect(session.getMessages()).toHaveLength(1);
+  });
+
+  it("skips routing when it is turned off", async () => {
+    const fetchMock = vi.fn(async () => completion("Plain answer."));
+    vi.stubGlobal("fetch", fetchMock);
+    const agentOutput: string[] = [];
+    const session = await makeSession(agentOutput);
+
+    session.setRouting(false);
+    await session.runTurn("research the latest on solar panels");
+    expect(agentOutput).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("coder agent writes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const patch = ["--- a/notes.txt", "+++ b/notes.txt", "@@ -1 +1 @@", "-draft", "+final", ""].join("\n");
+
+  function stubCoder() {
+    const replies = [
+      { content: null, tool_calls: [{ id: "c1", type: "function", function: { name: "fs_read", arguments: '{"path":"notes.txt"}' } }] },
+      {
+        content: null,
+        tool_calls: [{ id: "c2", type: "function", function: { name: "fs_apply_patch", arguments: JSON.stringify({ patch }) } }]
+      },
+      { content: "Updated notes.txt." },
+      { content: "Done." }
+    ];
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response(
+          JSON.stringify({
+            id: "c",
+            choices: [{ index: 0, message: { role: "assistant", ...replies.shift() }, finish_reason: "stop" }]
+          }),
+          { status: 200 }
+        )
+      )
+    );
+  }
+
+  for (const approved of [false, true]) {
+    it(`asks for approval before applying a patch (${approved ? "approved" : "declined"})`, async () => {
+      stubCoder();
+      const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-coder-"));
+      const workspaceRoot = path.join(baseDir, "workspace");
+      await fs.mkdir(workspaceRoot, { recursive: true });
+      await fs.writeFile(path.join(workspaceRoot, "notes.txt"), "draft\n", "utf8");
+      const questions: string[] = [];
+      const previews: Array<string | undefined> = [];
+      const session = await createAgentSession({
+        autoApprove: false,
+        maxSteps: 2,
+        baseDir,
+        routing: "keywords",
+        confirm: async (question, preview) => {
+          questions.push(question);
+          previews.push(preview);
+          return approved;
+        }
+      });
+
+      await session.runTurn("tidy notes.txt", { agent: "coder" });
+      expect(questions).toEqual(["Approve Coder agent's fs_apply_patch to write to workspace? (y/N) "]);
+      expect(previews[0]).toContain("-draft\n+final");
+      const content = await fs.readFile(path.join(workspaceRoot, "notes.txt"), "utf8");
+      expect(content).toBe(approved ? "final\n" : "draft\n");
+    });
+  }
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { researchAgent, emailWriterAgent } from "../src/agent/agents.js";
+import { researchAgent, emailWriterAgent, requireAgent } from "../src/agent/agents.js";
 
 
 describe("agent profiles", () => {
@@ -11,4 +11,9 @@ describe("agent profiles", () => {
   it("email writer has no tools", () => {
     expect(emailWriterAgent.toolNames?.length ?? 0).toBe(0);
   });
-});
\ No newline at end of file
+
+  it("requireAgent names the available agents for unknown ids", () => {
+    expect(requireAgent("research")).toBe(researchAgent);
+    expect(() => requireAgent("translator")).toThrow('Unknown agent "translator". Available agents: email_writer, research, coder');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { createCheckpointStore } from "../src/tools/checkpoints.js";
+import { createToolRegistry } from "../src/tools/index.js";
+
+async function setup() {
+  const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-checkpoint-"));
+  const workspaceRoot = path.join(baseDir, "workspace");
+  await fs.mkdir(workspaceRoot, { recursive: true });
+  const checkpoints = createCheckpointStore(baseDir, workspaceRoot);
+  const tools = createToolRegistry(workspaceRoot, undefined, undefined, { checkpoints });
+  return { baseDir, workspaceRoot, checkpoints, tools };
+}
+
+describe("workspace checkpoints", () => {
+  it("undoes the last turn's writes, including new files", async () => {
+    const { workspaceRoot, checkpoints, tools } = await setup();
+    await fs.writeFile(path.join(workspaceRoot, "notes.txt"), "original", "utf8");
+
+    checkpoints.beginTurn("rewrite notes");
+    await tools.handlers.fs_write({ path: "notes.txt", content: "clobbered", overwrite: true });
+    await tools.handlers.fs_apply_patch({ patch: "*** Begin Patch\n*** Add File: extra.txt\nnew\n*** End Patch" });
+
+    const [latest] = await checkpoints.list();
+    expect(latest.label).toBe("rewrite notes");
+    expect(latest.files).toEqual([
+      { path: "notes.txt", existed: true },
+      { path: "extra.txt", existed: false }
+    ]);
+
+    await checkpoints.undo();
+    expect(await fs.readFile(path.join(workspaceRoot, "notes.txt"), "utf8")).toBe("original");
+    await expect(fs.access(path.join(workspaceRoot, "extra.txt"))).rejects.toThrow();
+    expect(await checkpoints.list()).toEqual([]);
+    await expect(checkpoints.undo()).rejects.toThrow("No checkpoints to undo");
+  });
+
+  it("keeps the first snapshot of a file within a turn", async () => {
+    const { workspaceRoot, checkpoints, tools } = await setup();
+    await fs.writeFile(path.join(workspaceRoot, "a.txt"), "v1", "utf8");
+
+    checkpoints.beginTurn("two writes");
+    await tools.handlers.fs_write({ path: "a.txt", content: "v2", overwrite: true });
+    await tools.handlers.fs_write({ path: "a.txt", content: "v3", overwrite: true });
+    await checkpoints.undo();
+
+    expect(await fs.readFile(path.join(workspaceRoot, "a.txt"), "utf8")).toBe("v1");
+  });
+
+  it("restores an older checkpoint by rolling back every newer turn", async () => {
+    const { workspaceRoot, checkpoints, tools } = await setup();
+    await fs.writeFile(path.join(workspaceRoot, "a.txt"), "v1", "utf8");
+
+    checkpoints.beginTurn("first");
+    await tools.handlers.fs_write({ path: "a.txt", content: "v2", overwrite: true });
+    checkpoints.beginTurn("second");
+    await tools.handlers.fs_write({ path: "a.txt", content: "v3", overwrite: true });
+    await tools.handlers.fs_write({ path: "b.txt", content: "b" });
+
+    const listed = await checkpoints.list();
+    expect(listed.map((checkpoint) => checkpoint.label)).toEqual(["second", "first"]);
+    const restored = await checkpoints.restore(listed[1].id);
+
+    expect(restored).toHaveLength(2);
+    expect(await fs.readFile(path.join(workspaceRoot, "a.txt"), "utf8")).toBe("v1");
+    await expect(fs.access(path.join(workspaceRoot, "b.txt"))).rejects.toThrow();
+    await expect(checkpoints.restore("missing")).rejects.toThrow("Checkpoint not found: missing");
+  });
+
+  it("removes created parent directories but keeps files that were never snapshotted", async () => {
+    const { workspaceRoot, checkpoints, tools } = await setup();
+
+    checkpoints.beginTurn("scaffold");
+    await tools.handlers.fs_mkdir({ path: "a/b/c" });
+    await tools.handlers.fs_write({ path: "docs/new.txt", content: "new" });
+    await tools.handlers.fs_copy({ from: "docs", to: "copy" });
+    await fs.writeFile(path.join(workspaceRoot, "docs", "mine.txt"), "user file", "utf8");
+
+    const [latest] = await checkpoints.list();
+    expect(latest.files.map((file) => file.path)).toEqual([
+      "a",
+      "a/b",
+      "a/b/c",
+      "docs",
+      "docs/new.txt",
+      "copy",
+      "copy/new.txt"
+    ]);
+
+    await checkpoints.undo();
+    await expect(fs.access(path.join(workspaceRoot, "a"))).rejects.toThrow();
+    await expect(fs.access(path.join(workspaceRoot, "copy"))).rejects.toThrow();
+    await expect(fs.access(path.join(workspaceRoot, "docs", "new.txt"))).rejects.toThrow();
+    expect(await fs.readFile(path.join(workspaceRoot, "docs", "mine.txt"), "utf8")).toBe("user file");
+  });
+
+  it("recreates empty directories removed by fs_delete", async () => {
+    const { workspaceRoot, checkpoints, tools } = await setup();
+    await fs.mkdir(path.join(workspaceRoot, "empty"), { recursive: true });
+    await fs.mkdir(path.join(workspaceRoot, "tree", "nested", "leaf"), { recursive: true });
+    await fs.writeFile(path.join(workspaceRoot, "tree", "file.txt"), "kept", "utf8");
+
+    checkpoints.beginTurn("clean up");
+    await tools.handlers.fs_delete({ path: "empty" });
+    await tools.handlers.fs_delete({ path: "tree" });
+
+    const [latest] = await checkpoints.list();
+    expect(latest.files).toContainEqual({ path: "empty", existed: true, dir: true });
+    expect(latest.files).toContainEqual({ path: "tree/nested/leaf", existed: true, dir: true });
+
+    await checkpoints.undo();
+    expect((await fs.stat(path.join(workspaceRoot, "empty"))).isDirectory()).toBe(true);
+    expect((await fs.stat(path.join(workspaceRoot, "tree", "nested", "leaf"))).isDirectory()).toBe(true);
+    expect(await fs.readFile(path.join(workspaceRoot, "tree", "file.txt"), "utf8")).toBe("kept");
+  });
+
+  it("only lists checkpoints for its own workspace", async () => {
+    const { baseDir, checkpoints, tools } = await setup();
+    const otherRoot = path.join(baseDir, "other");
+    await fs.mkdir(otherRoot, { recursive: true });
+    const other = createCheckpointStore(baseDir, otherRoot);
+
+    checkpoints.beginTurn("mine");
+    await tools.handlers.fs_write({ path: "a.txt", content: "a" });
+
+    expect(await checkpoints.list()).toHaveLength(1);
+    expect(await other.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { createAgentSession } from "../src/agent/loop.js";
+import { mapWithConcurrency } from "../src/util/concurrency.js";
+
+describe("mapWithConcurrency", () => {
+  it("keeps results in input order", async () => {
+    const delays = [30, 5, 15, 1];
+    const results = await mapWithConcurrency(delays, 4, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3]);
+  });
+
+  it("never runs more than the limit at once", async () => {
+    let active = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+    });
+    expect(peak).toBe(2);
+  });
+});
+
+describe("runTurn tool execution", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("overlaps read-only calls, serializes writes and keeps tool results in call order", async () => {
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-tools-"));
+    const workspaceRoot = path.join(baseDir, "workspace");
+    const calls = [
+      toolCall("a", "web_fetch", { url: "https://example.com/a" }),
+      toolCall("b", "web_fetch", { url: "https://example.com/b" }),
+      toolCall("w", "fs_write", { path: "marker.txt", content: "written" }),
+      toolCall("c", "web_fetch", { url: "https://example.com/c" })
+    ];
+    const replies = [completion({ content: "", tool_calls: calls }), completion({ content: "Done." })];
+    const events: string[] = [];
+    let active = 0;
+    let peak = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (!url.startsWith("https://example.com/")) {
+          return replies.shift() as Response;
+        }
+        const page = url.slice(-1);
+        const markerWritten = await fs
+          .access(path.join(workspaceRoot, "marker.txt"))
+          .then(() => true)
+          .catch(() => false);
+        events.push(`${page}:start:${markerWritten ? "after" : "before"}-write`);
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, page === "a" ? 40 : 5));
+        active -= 1;
+        events.push(`${page}:end`);
+        return new Response(`<html><head><title>${page}</title></head><body><p>page ${page}</p></body></html>`);
+      })
+    );
+
+    const session = await createAgentSession({
+      autoApprove: true,
+      maxSteps: 3,
+      baseDir,
+      workspaceRoot,
+      routing: "keywords",
+      toolConcurrency: 2
+    });
+    expect(await session.runTurn("check the pages")).toBe("Done.");
+
+    expect(peak).toBe(2);
+    expect(events.slice(0, 2).sort()).toEqual(["a:start:before-write", "b:start:before-write"]);
+    expect(events.indexOf("c:start:after-write")).toBeGreaterThan(events.indexOf("a:end"));
+    const toolMessages = session.getMessages().filter((message) => message.role === "tool");
+    expect(toolMessages.map((message) => message.tool_call_id)).toEqual(["a", "b", "w", "c"]);
+    expect(toolMessages[0].content).toContain("page a");
+  });
+});
+
+function toolCall(id: string, name: string, args: Record<string, unknown>) {
+  return { id, type: "function", function: { name, arguments: JSON.stringify(args) } };
+}
+
+function completion(message: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify({ id: "c", choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: "stop" }] }),
+    { status: 200 }
+  );
+}
@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import path from "node:path";
 import os from "node:os";
 import fs from "node:fs/promises";
-import { loadConfig, mergeConfig, DEFAULT_CONFIG } from "../src/util/config.js";
+import { loadConfig, mergeConfig, resolveModelSelection, resolveRoleProfiles, DEFAULT_CONFIG } from "../src/util/config.js";
 
 async function makeTempDir() {
   const dir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-config-"));
@@ -38,11 +38,14 @@ describe("config loader", () => {
   it("env overrides config file", async () => {
     const dir = await makeTempDir();
     const configPath = path.join(dir, "workshop.config.json");
-    await fs.writeFile(configPath, JSON.stringify({ agent: { maxSteps: 20 } }), "utf8");
+    await fs.writeFile(configPath, JSON.stringify({ agent: { maxSteps: 20, patchFuzz: 0, toolConcurrency: 2 } }), "utf8");
     process.env.WORKSHOP_MAX_STEPS = "7";
+    process.env.WORKSHOP_PATCH_FUZZ = "3";
 
     const config = await loadConfig(dir);
     expect(config.agent.maxSteps).toBe(7);
+    expect(config.agent.patchFuzz).toBe(3);
+    expect(config.agent.toolConcurrency).toBe(2);
   });
 
   it("uses openai defaults when provider is openai", async () => {
@@ -56,6 +59,69 @@ describe("config loader", () => {
     expect(config.llm.model).toBe("gpt-4o-mini");
   });
 
+  it("uses native ollama defaults and generation options", async () => {
+    const dir = await makeTempDir();
+    const configPath = path.join(dir, "workshop.config.json");
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({ llm: { provider: "ollama-native", numCtx: 32768, keepAlive: 300 } }),
+      "utf8"
+    );
+
+    const config = await loadConfig(dir);
+    expect(config.llm.provider).toBe("ollama-native");
+    expect(config.llm.baseUrl).toBe("http://localhost:11434");
+    expect(config.llm.numCtx).toBe(32768);
+    expect(config.llm.keepAlive).toBe("300");
+  });
+
+  it("resolves role profiles on top of the base llm config", async () => {
+    const dir = await makeTempDir();
+    const configPath = path.join(dir, "workshop.config.json");
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        models: {
+          profiles: {
+            big: { model: "qwen2.5:32b", baseUrl: "http://gpu-box:11434/v1" },
+            small: { model: "llama3.2:3b" },
+            cloud: { provider: "openai", apiKey: "sk-test" }
+          },
+          roles: { main: ["big", "default", "cloud"], docSummarize: "small" }
+        }
+      }),
+      "utf8"
+    );
+
+    const config = await loadConfig(dir);
+    const main = resolveRoleProfiles(config.llm, config.models, "main");
+    expect(main.map((entry) => entry.name)).toEqual(["big", "default", "cloud"]);
+    expect(main[0].config.baseUrl).toBe("http://gpu-box:11434/v1");
+    expect(main[1].config.model).toBe(DEFAULT_CONFIG.llm.model);
+    expect(main[2].config.baseUrl).toBe("https://api.openai.com/v1");
+    expect(main[2].config.model).toBe("gpt-4o-mini");
+
+    const doc = resolveRoleProfiles(config.llm, config.models, "docSummarize");
+    expect(doc[0].config.model).toBe("llama3.2:3b");
+    expect(doc[0].config.baseUrl).toBe(DEFAULT_CONFIG.llm.baseUrl);
+    expect(resolveRoleProfiles(config.llm, config.models, "agents")[0].name).toBe("default");
+  });
+
+  it("rejects roles that name unknown profiles", () => {
+    const models = { ...DEFAULT_CONFIG.models, roles: { ...DEFAULT_CONFIG.models.roles, agents: "missing" } };
+    expect(() => resolveRoleProfiles(DEFAULT_CONFIG.llm, models, "agents")).toThrow(/Unknown model profile/);
+  });
+
+  it("selects a profile by name or a model on the current endpoint", () => {
+    const models = { profiles: { small: { model: "llama3.2:3b" } }, roles: DEFAULT_CONFIG.models.roles };
+    const current = { ...DEFAULT_CONFIG.llm, baseUrl: "http://gpu-box:11434/v1", model: "big" };
+
+    expect(resolveModelSelection(DEFAULT_CONFIG.llm, models, current, "small").config.model).toBe("llama3.2:3b");
+    const raw = resolveModelSelection(DEFAULT_CONFIG.llm, models, current, "mistral:7b");
+    expect(raw.config.model).toBe("mistral:7b");
+    expect(raw.config.baseUrl).toBe("http://gpu-box:11434/v1");
+  });
+
   it("mergeConfig applies overrides in order", () => {
     const merged = mergeConfig(DEFAULT_CONFIG, { agent: { maxSteps: 5 } }, { agent: { maxSteps: 9 } });
     expect(merged.agent.maxSteps).toBe(9);
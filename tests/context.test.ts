@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import type { ChatMessage } from "../src/llm/ollamaClient.js";
+import { compactMessages, estimateMessageTokens, SUMMARY_PREFIX } from "../src/agent/context.js";
+
+function makeClient(summary: string) {
+  const calls: ChatMessage[][] = [];
+  return {
+    calls,
+    chat: async (params: { messages: ChatMessage[] }) => {
+      calls.push(params.messages);
+      return {
+        id: "test",
+        choices: [{ index: 0, message: { role: "assistant" as const, content: summary }, finish_reason: "stop" }]
+      };
+    }
+  };
+}
+
+function makeConversation(turns: number, size: number): ChatMessage[] {
+  const messages: ChatMessage[] = [{ role: "system", content: "system prompt" }];
+  for (let index = 0; index < turns; index += 1) {
+    messages.push({ role: "user", content: `question ${index} ${"x".repeat(size)}` });
+    messages.push({ role: "assistant", content: `answer ${index} ${"y".repeat(size)}` });
+  }
+  return messages;
+}
+
+const budget = { contextWindow: 1000, threshold: 0.5, keepRecentTurns: 2 };
+
+describe("context compaction", () => {
+  it("leaves short conversations untouched", async () => {
+    const client = makeClient("unused");
+    const messages = makeConversation(2, 10);
+    const result = await compactMessages(client, messages, budget);
+    expect(result.compacted).toBe(false);
+    expect(result.messages).toBe(messages);
+    expect(client.calls.length).toBe(0);
+  });
+
+  it("summarizes older turns and keeps the system prompt and recent turns", async () => {
+    const client = makeClient("- user asked several questions");
+    const messages = makeConversation(6, 400);
+    const result = await compactMessages(client, messages, budget);
+
+    expect(result.compacted).toBe(true);
+    expect(result.removedMessages).toBe(8);
+    expect(result.messages[0]).toEqual(messages[0]);
+    expect(result.messages[1].content).toBe(`${SUMMARY_PREFIX}\n- user asked several questions`);
+    expect(result.messages.slice(2)).toEqual(messages.slice(-4));
+    expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+  });
+
+  it("extends an existing summary instead of stacking a new one", async () => {
+    const client = makeClient("merged summary");
+    const messages = makeConversation(6, 400);
+    messages.splice(1, 0, { role: "system", content: `${SUMMARY_PREFIX}\nolder facts` });
+    const result = await compactMessages(client, messages, budget);
+
+    const prompt = client.calls[0][1].content ?? "";
+    expect(prompt).toContain("older facts");
+    expect(result.messages.filter((message) => message.content?.startsWith(SUMMARY_PREFIX)).length).toBe(1);
+  });
+
+  it("truncates large tool results when there is nothing old to summarize", async () => {
+    const client = makeClient("unused");
+    const messages: ChatMessage[] = [
+      { role: "system", content: "system prompt" },
+      { role: "user", content: "read the log" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "fs_read", arguments: "{}" } }]
+      },
+      { role: "tool", tool_call_id: "call_1", content: "z".repeat(5000) },
+      { role: "assistant", content: "done" }
+    ];
+    const result = await compactMessages(client, messages, { ...budget, maxToolResultChars: 200 });
+
+    expect(result.truncatedToolResults).toBe(1);
+    expect(result.messages[3].content?.length).toBeLessThan(300);
+    expect(estimateMessageTokens(result.messages)).toBeLessThan(estimateMessageTokens(messages));
+    expect(client.calls.length).toBe(0);
+  });
+
+  it("falls back to a mechanical summary when the model call fails", async () => {
+    const client = {
+      chat: async () => {
+        throw new Error("LLM error 500: down");
+      }
+    };
+    const messages = makeConversation(6, 400);
+    const result = await compactMessages(client, messages, budget);
+    expect(result.compacted).toBe(true);
+    expect(result.summary).toContain("User asked: question 0");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { getAgentsDir, loadAgentCatalog, parseAgentFile } from "../src/agent/customAgents.js";
+import { routeAgent } from "../src/agent/router.js";
+
+const triageAgent = [
+  "---",
+  "id: bug_triage",
+  "name: Bug Triage",
+  "description: Triages bug reports into severity and next steps.",
+  "tools: [fs_read, fs_list]",
+  "maxSteps: 4",
+  "triggers:",
+  "  - bug report",
+  '  - "crash log"',
+  "---",
+  "You triage bug reports.",
+  "Return severity, suspected area and next steps.",
+  ""
+].join("\n");
+
+async function makeAgentsDir(files: Record<string, string>) {
+  const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-agents-"));
+  const agentsDir = getAgentsDir(baseDir);
+  await fs.mkdir(agentsDir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(agentsDir, name), content, "utf8");
+  }
+  return baseDir;
+}
+
+describe("custom agents", () => {
+  it("parses markdown frontmatter with the body as the system prompt", () => {
+    const agent = parseAgentFile("triage.md", triageAgent);
+    expect(agent).toMatchObject({
+      id: "bug_triage",
+      name: "Bug Triage",
+      toolNames: ["fs_read", "fs_list"],
+      maxSteps: 4,
+      triggers: ["bug report", "crash log"]
+    });
+    expect(agent.systemPrompt).toBe("You triage bug reports.\nReturn severity, suspected area and next steps.");
+  });
+
+  it("parses json profiles", () => {
+    const agent = parseAgentFile(
+      "release.json",
+      JSON.stringify({ id: "release_notes", systemPrompt: "Write release notes.", model: "small", triggers: ["changelog"] })
+    );
+    expect(agent).toMatchObject({ id: "release_notes", name: "release_notes", model: "small", toolNames: [] });
+  });
+
+  it("reports invalid profiles without dropping the valid ones", async () => {
+    const baseDir = await makeAgentsDir({
+      "a-triage.md": triageAgent,
+      "b-broken.json": "{ id: ",
+      "c-no-id.md": "---\nname: Nameless\n---\nPrompt",
+      "d-tools.md": "---\nid: fetcher\ntools: web_fetch\n---\nFetch pages.",
+      "e-dupe.md": "---\nid: research\n---\nShadow the built-in.",
+      "notes.txt": "ignored"
+    });
+
+    const catalog = await loadAgentCatalog(baseDir, { knownTools: ["fs_read", "fs_list", "fs_write"] });
+    expect(catalog.agents.map((agent) => agent.id)).toEqual(["email_writer", "research", "coder", "bug_triage"]);
+    expect(catalog.errors.map((error) => path.basename(error.file))).toEqual([
+      "b-broken.json",
+      "c-no-id.md",
+      "d-tools.md",
+      "e-dupe.md"
+    ]);
+    expect(catalog.errors[1].message).toContain('missing required field "id"');
+    expect(catalog.errors[2].message).toContain('unknown tool "web_fetch"');
+    expect(catalog.errors[3].message).toContain("already used");
+  });
+
+  it("keeps the built-in agents when the agents directory cannot be read", async () => {
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-agents-"));
+    await fs.mkdir(path.dirname(getAgentsDir(baseDir)), { recursive: true });
+    await fs.writeFile(getAgentsDir(baseDir), "not a directory", "utf8");
+
+    const catalog = await loadAgentCatalog(baseDir);
+    expect(catalog.agents.map((agent) => agent.id)).toEqual(["email_writer", "research", "coder"]);
+    expect(catalog.errors).toHaveLength(1);
+    expect(catalog.errors[0].file).toBe(getAgentsDir(baseDir));
+    expect(catalog.errors[0].message).toContain("ENOTDIR");
+  });
+
+  it("routes on custom trigger phrases", async () => {
+    const baseDir = await makeAgentsDir({ "triage.md": triageAgent });
+    const { agents } = await loadAgentCatalog(baseDir);
+    expect(routeAgent("Can you look at this bug report from QA?", agents)?.agent.id).toBe("bug_triage");
+    expect(routeAgent("research battery chemistry", agents)?.agent.id).toBe("research");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { createAgentSession } from "../src/agent/loop.js";
+import { buildDelegateTool, agentProfiles } from "../src/agent/agents.js";
+
+function completion(message: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify({ id: "c", choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: "stop" }] }),
+    { status: 200 }
+  );
+}
+
+describe("delegate_to_agent", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("enumerates the registered agent ids", () => {
+    const tool = buildDelegateTool(agentProfiles);
+    const parameters = tool.function.parameters as { properties: { agent: { enum: string[] } } };
+    expect(parameters.properties.agent.enum).toEqual(["email_writer", "research", "coder"]);
+  });
+
+  it("runs the specialist mid-turn and returns its output as the tool result", async () => {
+    const replies = [
+      completion({
+        content: null,
+        tool_calls: [
+          {
+            id: "call_1",
+            type: "function",
+            function: {
+              name: "delegate_to_agent",
+              arguments: JSON.stringify({ agent: "email_writer", task: "Tell the team the build is fixed." })
+            }
+          }
+        ]
+      }),
+      completion({ content: "Hi team, the build is green again." }),
+      completion({ content: "Drafted the email." })
+    ];
+    const fetchMock = vi.fn(async () => replies.shift()!);
+    vi.stubGlobal("fetch", fetchMock);
+
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-delegate-"));
+    const agentOutput: string[] = [];
+    const session = await createAgentSession({
+      autoApprove: false,
+      maxSteps: 4,
+      baseDir,
+      onAgent: (event) => agentOutput.push(event.name)
+    });
+
+    const answer = await session.runTurn("let everyone know");
+    expect(answer).toBe("Drafted the email.");
+    expect(agentOutput).toEqual(["Email Writer"]);
+
+    const specialistRequest = JSON.parse((fetchMock.mock.calls[1] as unknown as [string, RequestInit])[1].body as string);
+    expect(specialistRequest.messages[1].content).toBe("Tell the team the build is fixed.");
+
+    const toolMessage = session.getMessages().find((message) => message.role === "tool");
+    expect(JSON.parse(toolMessage?.content ?? "{}")).toEqual({
+      agent: "email_writer",
+      output: "Hi team, the build is green again.",
+      toolCalls: []
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { FallbackClient, type FallbackEvent } from "../src/llm/fallback.js";
+import type { ChatClient, ChatCompletionChunk, ChatCompletionResponse } from "../src/llm/ollamaClient.js";
+
+function reply(content: string): ChatCompletionResponse {
+  return { id: content, choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] };
+}
+
+function chunk(content: string): ChatCompletionChunk {
+  return { id: content, choices: [{ index: 0, delta: { content } }] };
+}
+
+function fakeClient(behaviour: { fail?: boolean; failAfterFirstChunk?: boolean; content: string }) {
+  const calls = { chat: 0, stream: 0 };
+  const client: ChatClient = {
+    async chat() {
+      calls.chat += 1;
+      if (behaviour.fail) {
+        throw new Error("connection refused");
+      }
+      return reply(behaviour.content);
+    },
+    async *chatStream() {
+      calls.stream += 1;
+      if (behaviour.fail) {
+        throw new Error("connection refused");
+      }
+      yield chunk(behaviour.content);
+      if (behaviour.failAfterFirstChunk) {
+        throw new Error("stream reset");
+      }
+    }
+  };
+  return { client, calls };
+}
+
+async function collect(stream: AsyncGenerator<ChatCompletionChunk>): Promise<string> {
+  let text = "";
+  for await (const part of stream) {
+    text += part.choices[0]?.delta.content ?? "";
+  }
+  return text;
+}
+
+describe("fallback client", () => {
+  it("moves to the next profile when the primary fails", async () => {
+    const primary = fakeClient({ fail: true, content: "primary" });
+    const backup = fakeClient({ content: "backup" });
+    const events: FallbackEvent[] = [];
+    const client = new FallbackClient(
+      [
+        { name: "big", client: primary.client },
+        { name: "small", client: backup.client }
+      ],
+      { onFallback: (event) => events.push(event) }
+    );
+
+    const response = await client.chat({ messages: [] });
+    expect(response.choices[0].message.content).toBe("backup");
+    expect(events).toEqual([{ from: "big", to: "small", reason: "connection refused" }]);
+  });
+
+  it("tries a recently failed endpoint last", async () => {
+    const primary = fakeClient({ fail: true, content: "primary" });
+    const backup = fakeClient({ content: "backup" });
+    const client = new FallbackClient([
+      { name: "big", client: primary.client },
+      { name: "small", client: backup.client }
+    ]);
+
+    await client.chat({ messages: [] });
+    expect(await collect(client.chatStream({ messages: [] }))).toBe("backup");
+    expect(primary.calls).toEqual({ chat: 1, stream: 0 });
+  });
+
+  it("does not switch endpoints once a stream has produced output", async () => {
+    const primary = fakeClient({ failAfterFirstChunk: true, content: "partial" });
+    const backup = fakeClient({ content: "backup" });
+    const client = new FallbackClient([
+      { name: "big", client: primary.client },
+      { name: "small", client: backup.client }
+    ]);
+
+    await expect(collect(client.chatStream({ messages: [] }))).rejects.toThrow("stream reset");
+    expect(backup.calls.stream).toBe(0);
+  });
+
+  it("throws the last error when every profile fails", async () => {
+    const client = new FallbackClient([
+      { name: "a", client: fakeClient({ fail: true, content: "a" }).client },
+      { name: "b", client: fakeClient({ fail: true, content: "b" }).client }
+    ]);
+    await expect(client.chat({ messages: [] })).rejects.toThrow("connection refused");
+  });
+});
@@ -1,8 +1,10 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import path from "node:path";
 import os from "node:os";
 import fs from "node:fs/promises";
-import { fsApplyPatch, fsRead, fsWrite } from "../src/tools/fs.js";
+import { fsApplyPatch, fsEdit, fsRead, fsWrite } from "../src/tools/fs.js";
+import { createToolRegistry } from "../src/tools/index.js";
+import { createAgentSession } from "../src/agent/loop.js";
 
 async function makeWorkspace() {
   const dir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-fs-"));
@@ -46,6 +48,49 @@ describe("fs_apply_patch", () => {
   });
 });
 
+describe("fs_apply_patch hunks", () => {
+  it("updates only the hunk region and keeps the rest of the file", async () => {
+    const root = await makeWorkspace();
+    await fsWrite(root, "app.py", ["import os", "", "def main():", "    print('hi')", "    return 0", ""].join("\n"));
+
+    const patch = [
+      "*** Begin Patch",
+      "*** Update File: app.py",
+      "@@ def main():",
+      "-    print('hi')",
+      "+    print('hello')",
+      "     return 0",
+      "*** End Patch"
+    ].join("\n");
+
+    const result = await fsApplyPatch(root, patch);
+    expect(result.applied).toBe(true);
+    const updated = await fsRead(root, "app.py");
+    expect(updated.content).toBe(["import os", "", "def main():", "    print('hello')", "    return 0", ""].join("\n"));
+  });
+
+  it("moves a file while applying hunks", async () => {
+    const root = await makeWorkspace();
+    await fsWrite(root, "old.txt", "alpha\nbeta\n");
+
+    const patch = [
+      "*** Begin Patch",
+      "*** Update File: old.txt",
+      "*** Move to: docs/new.txt",
+      "@@",
+      " alpha",
+      "-beta",
+      "+gamma",
+      "*** End Patch"
+    ].join("\n");
+
+    const result = await fsApplyPatch(root, patch);
+    expect(result.changedFiles).toEqual(["old.txt", "docs/new.txt"]);
+    expect((await fsRead(root, "docs/new.txt")).content).toBe("alpha\ngamma\n");
+    await expect(fsRead(root, "old.txt")).rejects.toThrow();
+  });
+});
+
 describe("fs_write", () => {
   it("respects overwrite flag", async () => {
     const root = await makeWorkspace();
@@ -54,4 +99,89 @@ describe("fs_write", () => {
     const result = await fsWrite(root, "file.txt", "two", true);
     expect(result.bytesWritten).toBeGreaterThan(0);
   });
-});
\ No newline at end of file
+});
+
+describe("fs_edit", () => {
+  it("replaces a unique string and returns a short diff", async () => {
+    const root = await makeWorkspace();
+    await fsWrite(root, "app.ts", "const a = 1;\nconst b = 2;\nconst c = 3;\n");
+
+    const result = await fsEdit(root, "app.ts", "const b = 2;", "const b = 20;");
+    expect(result.replacements).toBe(1);
+    expect(result.diff).toContain("-const b = 2;\n+const b = 20;");
+    expect((await fsRead(root, "app.ts")).content).toBe("const a = 1;\nconst b = 20;\nconst c = 3;\n");
+  });
+
+  it("fails clearly on missing or ambiguous strings unless replace_all is set", async () => {
+    const root = await makeWorkspace();
+    await fsWrite(root, "dup.txt", "x = 1\nx = 1\n");
+
+    await expect(fsEdit(root, "dup.txt", "y = 1", "y = 2")).rejects.toThrow("old_string was not found in dup.txt");
+    await expect(fsEdit(root, "dup.txt", "x = 1", "x = 2")).rejects.toThrow("old_string matches 2 places in dup.txt");
+
+    const preview = await fsEdit(root, "dup.txt", "x = 1", "x = 2", { replaceAll: true, dryRun: true });
+    expect(preview).toMatchObject({ replacements: 2, dryRun: true });
+    expect((await fsRead(root, "dup.txt")).content).toBe("x = 1\nx = 1\n");
+
+    await fsEdit(root, "dup.txt", "x = 1", "x = $&", { replaceAll: true });
+    expect((await fsRead(root, "dup.txt")).content).toBe("x = $&\nx = $&\n");
+  });
+
+  it("is registered as a write tool", () => {
+    expect(createToolRegistry("workspace").writeTools.has("fs_edit")).toBe(true);
+  });
+});
+
+describe("fs_edit approval", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  for (const approved of [false, true]) {
+    it(`asks before editing and checkpoints the file (${approved ? "approved" : "declined"})`, async () => {
+      const editCall = {
+        id: "call_1",
+        type: "function",
+        function: { name: "fs_edit", arguments: JSON.stringify({ path: "notes.txt", old_string: "draft", new_string: "final" }) }
+      };
+      const replies = [{ content: "", tool_calls: [editCall] }, { content: "Done." }];
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () =>
+          new Response(
+            JSON.stringify({
+              id: "c",
+              choices: [{ index: 0, message: { role: "assistant", ...replies.shift() }, finish_reason: "stop" }]
+            }),
+            { status: 200 }
+          )
+        )
+      );
+      const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-edit-"));
+      const workspaceRoot = path.join(baseDir, "workspace");
+      await fs.mkdir(workspaceRoot, { recursive: true });
+      await fs.writeFile(path.join(workspaceRoot, "notes.txt"), "draft\n", "utf8");
+      const previews: Array<string | undefined> = [];
+      const session = await createAgentSession({
+        autoApprove: false,
+        maxSteps: 2,
+        baseDir,
+        routing: "keywords",
+        confirm: async (question, preview) => {
+          expect(question).toBe("Approve fs_edit to write to workspace? (y/N) ");
+          previews.push(preview);
+          return approved;
+        }
+      });
+
+      await session.runTurn("tidy my notes");
+      expect(previews).toHaveLength(1);
+      expect(previews[0]).toContain("-draft\n+final");
+      expect(await fs.readFile(path.join(workspaceRoot, "notes.txt"), "utf8")).toBe(approved ? "final\n" : "draft\n");
+      const checkpoints = await session.listCheckpoints();
+      expect(checkpoints.flatMap((checkpoint) => checkpoint.files)).toEqual(
+        approved ? [{ path: "notes.txt", existed: true }] : []
+      );
+    });
+  }
+});
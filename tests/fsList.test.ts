@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { fsList } from "../src/tools/fs.js";
+
+async function makeWorkspace() {
+  const root = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "workshop-list-")), "workspace");
+  const files: Record<string, string> = {
+    ".gitignore": "dist/\n*.log\n!keep.log\n",
+    "README.md": "# readme\n",
+    "debug.log": "noise\n",
+    "keep.log": "kept\n",
+    "docs/guide.md": "guide\n",
+    "docs/api/index.md": "api\n",
+    "docs/.gitignore": "/draft.md\n",
+    "docs/draft.md": "draft\n",
+    "dist/bundle.js": "bundle\n",
+    "src/main.ts": "main\n"
+  };
+  for (const [name, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+    await fs.writeFile(path.join(root, name), content, "utf8");
+  }
+  return root;
+}
+
+describe("fs_list", () => {
+  it("lists immediate children with sizes and modification times by default", async () => {
+    const root = await makeWorkspace();
+
+    const result = await fsList(root);
+    expect(result.entries.map((entry) => entry.path)).toEqual([
+      ".gitignore",
+      "debug.log",
+      "dist",
+      "docs",
+      "keep.log",
+      "README.md",
+      "src"
+    ]);
+    const filtered = await fsList(root, ".", { respectGitignore: true });
+    expect(filtered.entries.map((entry) => entry.path)).toEqual([".gitignore", "docs", "keep.log", "README.md", "src"]);
+    const readme = result.entries.find((entry) => entry.name === "README.md");
+    expect(readme).toMatchObject({ type: "file", size: 9 });
+    expect(Date.parse(readme?.modified ?? "")).not.toBeNaN();
+  });
+
+  it("walks recursively, honours nested .gitignore files and renders a tree", async () => {
+    const root = await makeWorkspace();
+
+    const result = await fsList(root, "docs", { recursive: true });
+    expect(result.entries.map((entry) => entry.path)).toEqual([
+      "docs/.gitignore",
+      "docs/api",
+      "docs/api/index.md",
+      "docs/guide.md"
+    ]);
+    expect(result.tree).toBe(["docs/", "  api/", "    index.md (4 B)", "  .gitignore (10 B)", "  guide.md (6 B)"].join("\n"));
+
+    const unfiltered = await fsList(root, "docs", { recursive: true, respectGitignore: false, maxDepth: 1 });
+    expect(unfiltered.entries.map((entry) => entry.name)).toContain("draft.md");
+    expect(unfiltered.entries.map((entry) => entry.name)).not.toContain("index.md");
+  });
+
+  it("filters by glob pattern and stops at maxEntries", async () => {
+    const root = await makeWorkspace();
+
+    const markdown = await fsList(root, ".", { pattern: "**/*.md" });
+    expect(markdown.entries.map((entry) => entry.path)).toEqual(["docs/api/index.md", "docs/guide.md", "README.md"]);
+
+    const capped = await fsList(root, ".", { recursive: true, maxEntries: 2 });
+    expect(capped.entries).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+    expect(capped.tree).toContain("stopped at 2 entries");
+  });
+});
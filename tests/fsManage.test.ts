@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { fsCopy, fsDelete, fsMkdir, fsMove } from "../src/tools/fs.js";
+import { createCheckpointStore } from "../src/tools/checkpoints.js";
+import { createToolRegistry } from "../src/tools/index.js";
+
+async function makeWorkspace() {
+  const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-manage-"));
+  const root = path.join(baseDir, "workspace");
+  await fs.mkdir(path.join(root, "src", "lib"), { recursive: true });
+  await fs.writeFile(path.join(root, "src", "app.ts"), "app\n", "utf8");
+  await fs.writeFile(path.join(root, "src", "lib", "helper.ts"), "helper\n", "utf8");
+  await fs.writeFile(path.join(root, "notes.md"), "notes\n", "utf8");
+  return { baseDir, root, trashDir: path.join(baseDir, ".workshop", "trash") };
+}
+
+describe("file management tools", () => {
+  it("moves and copies files and directories inside the workspace", async () => {
+    const { root } = await makeWorkspace();
+
+    expect(await fsMove(root, "notes.md", "docs/notes.md")).toEqual({ from: "notes.md", to: "docs/notes.md", type: "file" });
+    expect(await fs.readFile(path.join(root, "docs", "notes.md"), "utf8")).toBe("notes\n");
+    await expect(fs.access(path.join(root, "notes.md"))).rejects.toThrow();
+
+    expect(await fsCopy(root, "src", "backup")).toEqual({ from: "src", to: "backup", type: "dir" });
+    expect(await fs.readFile(path.join(root, "backup", "lib", "helper.ts"), "utf8")).toBe("helper\n");
+    expect(await fs.readFile(path.join(root, "src", "lib", "helper.ts"), "utf8")).toBe("helper\n");
+  });
+
+  it("refuses to clobber destinations or escape the workspace", async () => {
+    const { root } = await makeWorkspace();
+
+    await expect(fsCopy(root, "notes.md", "src/app.ts")).rejects.toThrow("set overwrite to replace it");
+    await fsCopy(root, "notes.md", "src/app.ts", true);
+    expect(await fs.readFile(path.join(root, "src", "app.ts"), "utf8")).toBe("notes\n");
+
+    await expect(fsMove(root, "notes.md", "src", true)).rejects.toThrow("Destination already exists: src");
+    await expect(fsMove(root, "src", "src/lib/inner")).rejects.toThrow("inside itself");
+    await expect(fsMove(root, "notes.md", "../outside.md")).rejects.toThrow();
+    await expect(fsCopy(root, "../workspace/notes.md", "copy.md")).resolves.toMatchObject({ to: "copy.md" });
+    await expect(fsMove(root, ".", "elsewhere")).rejects.toThrow("workspace root");
+    await expect(fsMove(root, "missing.md", "other.md")).rejects.toThrow("Not found: missing.md");
+  });
+
+  it("moves deleted paths to the trash and creates directories", async () => {
+    const { root, trashDir } = await makeWorkspace();
+
+    const deleted = await fsDelete(root, "src/lib", trashDir);
+    expect(deleted.path).toBe("src/lib");
+    expect(deleted.type).toBe("dir");
+    expect(await fs.readFile(path.join(trashDir, deleted.trash, "helper.ts"), "utf8")).toBe("helper\n");
+    await expect(fs.access(path.join(root, "src", "lib"))).rejects.toThrow();
+    await expect(fsDelete(root, ".", trashDir)).rejects.toThrow("workspace root");
+
+    expect(await fsMkdir(root, "a/b")).toEqual({ path: "a/b", created: true });
+    expect(await fsMkdir(root, "a/b")).toEqual({ path: "a/b", created: false });
+    await expect(fsMkdir(root, "notes.md")).rejects.toThrow("A file already exists at notes.md");
+  });
+
+  it("registers the tools as write tools and undoes them through checkpoints", async () => {
+    const { baseDir, root } = await makeWorkspace();
+    const checkpoints = createCheckpointStore(baseDir, root);
+    const tools = createToolRegistry(root, undefined, undefined, { checkpoints });
+    for (const name of ["fs_move", "fs_copy", "fs_delete", "fs_mkdir"]) {
+      expect(tools.writeTools.has(name)).toBe(true);
+    }
+
+    checkpoints.beginTurn("reorganize");
+    await tools.handlers.fs_move({ from: "src", to: "lib" });
+    await tools.handlers.fs_delete({ path: "notes.md" });
+    await tools.handlers.fs_mkdir({ path: "empty" });
+    expect(await fs.readdir(path.join(baseDir, ".workshop", "trash"))).toHaveLength(1);
+
+    await checkpoints.undo();
+    expect(await fs.readFile(path.join(root, "src", "lib", "helper.ts"), "utf8")).toBe("helper\n");
+    expect(await fs.readFile(path.join(root, "notes.md"), "utf8")).toBe("notes\n");
+    await expect(fs.access(path.join(root, "lib"))).rejects.toThrow();
+    await expect(fs.access(path.join(root, "empty"))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { fsRead } from "../src/tools/fs.js";
+
+async function makeWorkspace() {
+  const root = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "workshop-read-")), "workspace");
+  await fs.mkdir(root, { recursive: true });
+  return root;
+}
+
+describe("fs_read", () => {
+  it("returns small files whole with line counts", async () => {
+    const root = await makeWorkspace();
+    await fs.writeFile(path.join(root, "notes.txt"), "one\ntwo\n", "utf8");
+
+    const result = await fsRead(root, "notes.txt");
+    expect(result).toMatchObject({ path: "notes.txt", content: "one\ntwo\n", totalLines: 2, truncated: false });
+  });
+
+  it("pages through large files by line range and byte cap", async () => {
+    const root = await makeWorkspace();
+    const lines = Array.from({ length: 100 }, (_, index) => `line ${index + 1}`);
+    await fs.writeFile(path.join(root, "big.log"), `${lines.join("\n")}\n`, "utf8");
+
+    const page = await fsRead(root, "big.log", { offset: 10, limit: 3 });
+    expect(page).toMatchObject({
+      content: "line 10\nline 11\nline 12",
+      totalLines: 100,
+      startLine: 10,
+      endLine: 12,
+      truncated: true,
+      nextOffset: 13
+    });
+
+    const capped = await fsRead(root, "big.log", { maxBytes: 40 });
+    expect(capped.content).toBe("line 1\nline 2\nline 3\nline 4\nline 5");
+    expect(capped.nextOffset).toBe(6);
+
+    const tail = await fsRead(root, "big.log", { offset: 99 });
+    expect(tail).toMatchObject({ content: "line 99\nline 100", truncated: false });
+    expect(tail.nextOffset).toBeUndefined();
+  });
+
+  it("truncates long lines by UTF-8 bytes without splitting characters", async () => {
+    const root = await makeWorkspace();
+    await fs.writeFile(path.join(root, "emoji.txt"), `${"\u{1F600}".repeat(20)}\nnext\n`, "utf8");
+
+    const result = await fsRead(root, "emoji.txt", { maxBytes: 10 });
+    expect(result.content).toBe(`${"\u{1F600}".repeat(2)}... [line truncated]`);
+    expect(result.truncated).toBe(true);
+    expect(result.nextOffset).toBe(2);
+  });
+
+  it("describes binary files instead of returning their bytes", async () => {
+    const root = await makeWorkspace();
+    await fs.writeFile(path.join(root, "logo.png"), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]));
+    await fs.writeFile(path.join(root, "blob.dat"), Buffer.from([0x01, 0x00, 0x02]));
+
+    expect(await fsRead(root, "logo.png")).toEqual({ path: "logo.png", size: 9, binary: true, type: "PNG image" });
+    expect(await fsRead(root, "blob.dat")).toMatchObject({ binary: true, type: "binary data" });
+  });
+});
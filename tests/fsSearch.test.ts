@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { fsSearch } from "../src/tools/fs.js";
+import { matchesGlob } from "../src/util/glob.js";
+
+async function makeWorkspace() {
+  const root = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "workshop-search-")), "workspace");
+  await fs.mkdir(path.join(root, "src", "lib"), { recursive: true });
+  await fs.mkdir(path.join(root, ".workshop"), { recursive: true });
+  await fs.writeFile(path.join(root, "src", "app.ts"), "import { helper } from './lib/helper';\nhelper();\n", "utf8");
+  await fs.writeFile(path.join(root, "src", "lib", "helper.ts"), "// utils\nexport function helper() {\n  return 1;\n}\n", "utf8");
+  await fs.writeFile(path.join(root, "notes.md"), "helper notes (draft)\n", "utf8");
+  await fs.writeFile(path.join(root, ".workshop", "state.txt"), "helper\n", "utf8");
+  await fs.writeFile(path.join(root, "image.bin"), Buffer.from([0x68, 0x65, 0x6c, 0x70, 0x65, 0x72, 0x00, 0x01]));
+  return root;
+}
+
+describe("fs_search", () => {
+  it("finds regex matches with context and skips binaries and .workshop", async () => {
+    const root = await makeWorkspace();
+
+    const result = await fsSearch(root, "function\\s+helper", { contextLines: 1 });
+    expect(result.matches).toEqual([
+      {
+        path: "src/lib/helper.ts",
+        line: 2,
+        text: "export function helper() {",
+        before: ["// utils"],
+        after: ["  return 1;"]
+      }
+    ]);
+
+    const all = await fsSearch(root, "helper");
+    expect([...new Set(all.matches.map((match) => match.path))]).toEqual(["notes.md", "src/app.ts", "src/lib/helper.ts"]);
+  });
+
+  it("filters by glob, treats literal patterns literally and caps results", async () => {
+    const root = await makeWorkspace();
+
+    const typed = await fsSearch(root, "helper", { glob: "**/*.ts" });
+    expect(typed.matches.every((match) => match.path.endsWith(".ts"))).toBe(true);
+
+    const literal = await fsSearch(root, "(draft)", { literal: true });
+    expect(literal.matches.map((match) => match.path)).toEqual(["notes.md"]);
+
+    const capped = await fsSearch(root, "helper", { maxResults: 2 });
+    expect(capped.matches).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+
+    await expect(fsSearch(root, "(")).rejects.toThrow("Invalid regex");
+    await expect(fsSearch(root, "x", { path: "../" })).rejects.toThrow("Path escapes workspace root");
+  });
+
+  it("matches globs against workspace-relative paths", () => {
+    expect(matchesGlob("docs/guide/intro.md", "**/*.md")).toBe(true);
+    expect(matchesGlob("intro.md", "**/*.md")).toBe(true);
+    expect(matchesGlob("docs/intro.md", "*.md")).toBe(true);
+    expect(matchesGlob("docs/intro.md", "src/*.md")).toBe(false);
+    expect(matchesGlob("src/a.tsx", "src/*.{ts,tsx}")).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import {
+  listSessions,
+  loadSessionHistory,
+  resolveSessionPath,
+  saveSessionSnapshot
+} from "../src/agent/history.js";
+import { SUMMARY_PREFIX } from "../src/agent/context.js";
+
+async function makeBaseDir() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-history-"));
+  await fs.mkdir(path.join(dir, ".workshop", "sessions"), { recursive: true });
+  return dir;
+}
+
+async function writeLog(baseDir: string, id: string, entries: unknown[]) {
+  const filePath = path.join(baseDir, ".workshop", "sessions", `${id}.jsonl`);
+  await fs.writeFile(filePath, entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n", "utf8");
+  return filePath;
+}
+
+const toolCall = { id: "call_1", type: "function", function: { name: "fs_list", arguments: "{}" } };
+
+describe("session history", () => {
+  it("rebuilds messages, tool results and agent context from a log", async () => {
+    const baseDir = await makeBaseDir();
+    const filePath = await writeLog(baseDir, "one", [
+      { type: "message", role: "system", content: "sys" },
+      { type: "message", role: "user", content: "list files" },
+      { type: "agent", id: "research", name: "Research", content: "draft" },
+      { type: "message", role: "assistant", content: null, tool_calls: [toolCall] },
+      { type: "tool_call", name: "fs_list", arguments: {} },
+      { type: "tool_result", name: "fs_list", result: { entries: [] } },
+      { type: "message", role: "assistant", content: "No files." }
+    ]);
+
+    const messages = await loadSessionHistory(filePath);
+    expect(messages.map((message) => message.role)).toEqual(["system", "user", "system", "assistant", "tool", "assistant"]);
+    expect(messages[2].content).toContain("Specialist agent (Research) output:");
+    expect(messages[4]).toEqual({ role: "tool", tool_call_id: "call_1", content: JSON.stringify({ entries: [] }) });
+  });
+
+  it("applies logged compactions and resets", async () => {
+    const baseDir = await makeBaseDir();
+    const filePath = await writeLog(baseDir, "two", [
+      { type: "message", role: "system", content: "sys" },
+      { type: "message", role: "user", content: "a" },
+      { type: "message", role: "assistant", content: "b" },
+      { type: "message", role: "user", content: "c" },
+      { type: "compaction", removedMessages: 2, summary: "- asked a" },
+      { type: "message", role: "assistant", content: "d" }
+    ]);
+
+    const messages = await loadSessionHistory(filePath);
+    expect(messages.map((message) => message.content)).toEqual(["sys", `${SUMMARY_PREFIX}\n- asked a`, "c", "d"]);
+  });
+
+  it("saves snapshots and resolves latest", async () => {
+    const baseDir = await makeBaseDir();
+    const older = await writeLog(baseDir, "older", [
+      { type: "message", role: "system", content: "sys" },
+      { type: "message", role: "user", content: "hello" }
+    ]);
+    await fs.utimes(older, new Date(2000, 0, 1), new Date(2000, 0, 1));
+
+    const id = await saveSessionSnapshot(baseDir, [
+      { role: "system", content: "sys" },
+      { role: "user", content: "saved question" }
+    ], "mine");
+    expect(id).toBe("mine");
+
+    const latest = await resolveSessionPath(baseDir, "latest");
+    expect(path.basename(latest)).toBe("mine.jsonl");
+    const restored = await loadSessionHistory(latest);
+    expect(restored[1].content).toBe("saved question");
+
+    const sessions = await listSessions(baseDir);
+    expect(sessions.map((session) => session.id)).toEqual(["mine", "older"]);
+    await expect(resolveSessionPath(baseDir, "../escape")).rejects.toThrow();
+    await expect(resolveSessionPath(baseDir, "missing")).rejects.toThrow("Session not found");
+  });
+
+  it("refuses to overwrite an existing session when saving", async () => {
+    const baseDir = await makeBaseDir();
+    const live = await writeLog(baseDir, "live", [{ type: "message", role: "user", content: "keep me" }]);
+
+    await expect(saveSessionSnapshot(baseDir, [{ role: "user", content: "other" }], "live")).rejects.toThrow(
+      "A session named live already exists"
+    );
+    const restored = await loadSessionHistory(live);
+    expect(restored.map((message) => message.content)).toEqual(["keep me"]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { loadInstructions } from "../src/agent/instructions.js";
+import { buildSystemPrompt } from "../src/agent/systemPrompt.js";
+import { createToolRegistry } from "../src/tools/index.js";
+
+async function makeDirs() {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-instructions-"));
+  const homeDir = path.join(root, "home");
+  const workspaceRoot = path.join(root, "workspace");
+  await fs.mkdir(path.join(homeDir, ".workshop"), { recursive: true });
+  await fs.mkdir(workspaceRoot, { recursive: true });
+  return { homeDir, workspaceRoot };
+}
+
+describe("project instructions", () => {
+  it("loads user then project instructions and skips missing files", async () => {
+    const { homeDir, workspaceRoot } = await makeDirs();
+    expect(await loadInstructions(workspaceRoot, homeDir)).toEqual([]);
+
+    await fs.writeFile(path.join(homeDir, ".workshop", "WORKSHOP.md"), "Answer in British English.\n", "utf8");
+    await fs.writeFile(path.join(workspaceRoot, "WORKSHOP.md"), "Use pnpm, never npm.\n", "utf8");
+    const files = await loadInstructions(workspaceRoot, homeDir);
+    expect(files.map((file) => [file.scope, file.content])).toEqual([
+      ["user", "Answer in British English."],
+      ["project", "Use pnpm, never npm."]
+    ]);
+  });
+
+  it("builds the tool list from the registry and appends instructions", async () => {
+    const { workspaceRoot } = await makeDirs();
+    const registry = createToolRegistry(workspaceRoot);
+    const tools = registry.definitions.filter((tool) => tool.function.name !== "web_search");
+    const prompt = buildSystemPrompt({
+      autoApprove: false,
+      tools,
+      writeTools: registry.writeTools,
+      instructions: [{ scope: "project", path: "/w/WORKSHOP.md", content: "Use pnpm, never npm." }]
+    });
+
+    expect(prompt).toContain("- fs_read: Read a text file from the workspace.");
+    expect(prompt).not.toContain("- web_search:");
+    expect(prompt).toContain("- Writes (fs_write, fs_edit, fs_apply_patch, fs_move, fs_copy, fs_delete, fs_mkdir) require user confirmation");
+    expect(prompt.trim().endsWith("Use pnpm, never npm.")).toBe(true);
+    expect(prompt).toContain("Project instructions (/w/WORKSHOP.md):");
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { createAgentSession } from "../src/agent/loop.js";
+import { OllamaClient, type ChatMessage } from "../src/llm/ollamaClient.js";
+import { buildNativeChatBody } from "../src/llm/ollamaNative.js";
+
+function ndjsonResponse(lines: unknown[]): Response {
+  const text = lines.map((line) => JSON.stringify(line)).join("\n");
+  return new Response(text, { status: 200, headers: { "Content-Type": "application/x-ndjson" } });
+}
+
+describe("native ollama transport", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps generation options and tool history to the native format", () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: "list" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "fs_list", arguments: '{"path":"."}' } }]
+      },
+      { role: "tool", tool_call_id: "call_1", content: "{}" }
+    ];
+    const body = buildNativeChatBody({
+      model: "m",
+      messages,
+      stream: false,
+      generation: { numCtx: 16384, numPredict: 256, keepAlive: "10m", format: "json" }
+    });
+
+    expect(body.options).toEqual({ temperature: 0, num_ctx: 16384, num_predict: 256 });
+    expect(body.keep_alive).toBe("10m");
+    expect(body.format).toBe("json");
+    expect(body.messages).toMatchObject([
+      { role: "user" },
+      { role: "assistant", tool_calls: [{ function: { arguments: { path: "." } } }] },
+      { role: "tool", tool_name: "fs_list" }
+    ]);
+  });
+
+  it("converts non-streaming responses with tool calls", async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          message: { role: "assistant", content: "", tool_calls: [{ function: { name: "fs_read", arguments: { path: "a.txt" } } }] },
+          done: true
+        }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const client = new OllamaClient({
+      provider: "ollama-native",
+      baseUrl: "http://localhost:11434/v1",
+      apiKey: "ollama",
+      model: "m",
+      contextWindow: 8192
+    });
+    const response = await client.chat({ messages: [{ role: "user", content: "read" }] });
+
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:11434/api/chat");
+    const sent = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+    expect(sent.options.num_ctx).toBe(8192);
+    const message = response.choices[0].message;
+    expect(message.content).toBeNull();
+    expect(message.tool_calls?.[0].function).toEqual({ name: "fs_read", arguments: '{"path":"a.txt"}' });
+    expect((fetchMock.mock.calls[0][1] as RequestInit).headers).toMatchObject({ Authorization: "Bearer ollama" });
+
+    const again = await client.chat({ messages: [{ role: "user", content: "read" }] });
+    expect(again.choices[0].message.tool_calls?.[0].id).not.toBe(message.tool_calls?.[0].id);
+  });
+
+  it("streams NDJSON chunks as content deltas", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        ndjsonResponse([
+          { message: { role: "assistant", content: "Hel" }, done: false },
+          { message: { role: "assistant", content: "lo" }, done: false },
+          { message: { role: "assistant", content: "" }, done: true, done_reason: "stop" }
+        ])
+      )
+    );
+
+    const client = new OllamaClient({ provider: "ollama-native", baseUrl: "http://x", apiKey: "", model: "m" });
+    let text = "";
+    let finish: string | null | undefined = null;
+    for await (const chunk of client.chatStream({ messages: [{ role: "user", content: "hi" }] })) {
+      text += chunk.choices[0].delta.content ?? "";
+      finish = chunk.choices[0].finish_reason ?? finish;
+    }
+    expect(text).toBe("Hello");
+    expect(finish).toBe("stop");
+  });
+
+  it("lists models from /api/tags and /v1/models", async () => {
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith("/api/tags")
+        ? new Response(
+            JSON.stringify({
+              models: [
+                { name: "qwen2.5:7b", size: 4_700_000_000, details: { parameter_size: "7.6B", quantization_level: "Q4_K_M" } },
+                { name: "llama3.2:3b", size: 2_000_000_000 }
+              ]
+            }),
+            { status: 200 }
+          )
+        : new Response(JSON.stringify({ data: [{ id: "gpt-4o-mini", created: 0 }] }), { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const native = new OllamaClient({ provider: "ollama-native", baseUrl: "http://localhost:11434/v1", apiKey: "", model: "m" });
+    const models = await native.listModels();
+    expect(fetchMock.mock.calls[0][0]).toBe("http://localhost:11434/api/tags");
+    expect(models.map((model) => model.name)).toEqual(["llama3.2:3b", "qwen2.5:7b"]);
+    expect(models[1]).toMatchObject({ parameterSize: "7.6B", quantization: "Q4_K_M" });
+
+    const compat = new OllamaClient({ provider: "openai", baseUrl: "https://api.openai.com/v1", apiKey: "k", model: "m" });
+    expect(await compat.listModels()).toEqual([{ name: "gpt-4o-mini", modifiedAt: undefined }]);
+    expect(fetchMock.mock.calls[1][0]).toBe("https://api.openai.com/v1/models");
+  });
+
+  it("lists models from the endpoint of a session's selected profile", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [{ id: "small-model" }] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-models-"));
+    const session = await createAgentSession({
+      autoApprove: false,
+      maxSteps: 1,
+      baseDir,
+      routing: "keywords",
+      models: { profiles: { small: { baseUrl: "http://gpu-box:8000/v1", model: "small-model" } } },
+      model: "small"
+    });
+
+    expect(session.getModel()).toBe("small-model");
+    expect((await session.listModels()).map((model) => model.name)).toEqual(["small-model"]);
+    expect(fetchMock.mock.calls[0][0]).toBe("http://gpu-box:8000/v1/models");
+  });
+});
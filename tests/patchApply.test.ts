@@ -59,4 +59,184 @@ describe("fsApplyPatch", () => {
     const content = await fs.readFile(filePath, "utf8");
     expect(content).toBe("one\nThree\n");
   });
+
+  it("refuses a /dev/null unified diff when the file already exists", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    await fs.writeFile(path.join(rootReal, "d.txt"), "keep\n", "utf8");
+
+    const patch = ["--- /dev/null", "+++ b/d.txt", "@@ -0,0 +1,1 @@", "+fresh"].join("\n");
+
+    const result = await fsApplyPatch(rootReal, patch);
+    expect(result.applied).toBe(false);
+    expect(result.summary).toBe("Add failed, file exists: d.txt; no files were changed");
+    expect(await fs.readFile(path.join(rootReal, "d.txt"), "utf8")).toBe("keep\n");
+
+    const created = await fsApplyPatch(rootReal, patch.replace(/d\.txt/g, "e.txt"));
+    expect(created.applied).toBe(true);
+    expect(await fs.readFile(path.join(rootReal, "e.txt"), "utf8")).toBe("fresh\n");
+  });
+
+  it("leaves every file untouched when one part of a patch fails", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    await fs.writeFile(path.join(rootReal, "a.txt"), "alpha\n", "utf8");
+
+    const patch = [
+      "*** Begin Patch",
+      "*** Update File: a.txt",
+      "changed",
+      "*** Add File: b.txt",
+      "new file",
+      "*** Delete File: missing.txt",
+      "*** End Patch"
+    ].join("\n");
+
+    const result = await fsApplyPatch(rootReal, patch);
+    expect(result.applied).toBe(false);
+    expect(result.summary).toBe("Delete failed, file missing: missing.txt; no files were changed");
+    expect(result.changedFiles).toEqual([]);
+    expect(await fs.readFile(path.join(rootReal, "a.txt"), "utf8")).toBe("alpha\n");
+    await expect(fs.access(path.join(rootReal, "b.txt"))).rejects.toThrow();
+  });
+
+  it("previews diffs and hunk status on a dry run without writing", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    await fs.writeFile(path.join(rootReal, "c.txt"), "one\ntwo\n", "utf8");
+    await fs.writeFile(path.join(rootReal, "d.txt"), "three\n", "utf8");
+
+    const patch = [
+      "--- a/c.txt",
+      "+++ b/c.txt",
+      "@@ -1,2 +1,2 @@",
+      " one",
+      "-two",
+      "+TWO",
+      "--- a/d.txt",
+      "+++ b/d.txt",
+      "@@ -1 +1 @@",
+      "-four",
+      "+FOUR"
+    ].join("\n");
+
+    const result = await fsApplyPatch(rootReal, patch, { dryRun: true });
+    expect(result.dryRun).toBe(true);
+    expect(result.applied).toBe(false);
+    expect(result.summary).toContain("Failed to apply patch to d.txt");
+    expect(result.files?.map((file) => [file.path, file.hunks?.map((hunk) => hunk.applied)])).toEqual([
+      ["c.txt", [true]],
+      ["d.txt", [false]]
+    ]);
+    expect(result.files?.[0].diff).toContain("-two\n+TWO");
+    expect(await fs.readFile(path.join(rootReal, "c.txt"), "utf8")).toBe("one\ntwo\n");
+
+    const clean = await fsApplyPatch(rootReal, patch.split("\n").slice(0, 6).join("\n"), { dryRun: true });
+    expect(clean.summary).toBe("Dry run: 1 operation(s) would change 1 file(s)");
+    expect(clean.changedFiles).toEqual(["c.txt"]);
+  });
+
+  it("matches hunk context despite whitespace differences", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    await fs.writeFile(path.join(rootReal, "list.txt"), "first  item\t\nsecond\nthird\n", "utf8");
+
+    const patch = [
+      "*** Begin Patch",
+      "*** Update File: list.txt",
+      "@@",
+      " first item",
+      "-second",
+      "+2nd",
+      "*** End Patch"
+    ].join("\n");
+
+    const result = await fsApplyPatch(rootReal, patch);
+    expect(result.applied).toBe(true);
+    expect(await fs.readFile(path.join(rootReal, "list.txt"), "utf8")).toBe("first  item\t\n2nd\nthird\n");
+  });
+
+  it("reports ambiguous and missing hunk context without writing", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    await fs.writeFile(path.join(rootReal, "dup.txt"), "x = 1\ny = 2\nx = 1\n", "utf8");
+
+    const ambiguous = ["*** Begin Patch", "*** Update File: dup.txt", "@@", "-x = 1", "+x = 3", "*** End Patch"].join("\n");
+    const ambiguousResult = await fsApplyPatch(rootReal, ambiguous);
+    expect(ambiguousResult.applied).toBe(false);
+    expect(ambiguousResult.summary).toContain("ambiguous (matches lines 1, 3)");
+
+    const anchored = ["*** Begin Patch", "*** Update File: dup.txt", "@@ y = 2", "-x = 1", "+x = 3", "*** End Patch"].join("\n");
+    expect((await fsApplyPatch(rootReal, anchored, { dryRun: true })).files?.[0].diff).toContain("+x = 3");
+
+    const missing = ["*** Begin Patch", "*** Update File: dup.txt", "@@", "-z = 9", "+z = 0", "*** End Patch"].join("\n");
+    const missingResult = await fsApplyPatch(rootReal, missing);
+    expect(missingResult.summary).toContain("Could not find the hunk context in dup.txt");
+    expect(await fs.readFile(path.join(rootReal, "dup.txt"), "utf8")).toBe("x = 1\ny = 2\nx = 1\n");
+  });
+
+  it("applies hunks that drifted in line number or context", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    const lines = ["header", "", "alpha", "beta", "gamma  ", "delta", "epsilon", "omega"];
+    await fs.writeFile(path.join(rootReal, "drift.txt"), `${lines.join("\n")}\n`, "utf8");
+
+    const patch = [
+      "--- a/drift.txt",
+      "+++ b/drift.txt",
+      "@@ -1,5 +1,5 @@",
+      " alpha",
+      " beta",
+      "-gamma",
+      "+GAMMA",
+      " delta",
+      " zeta"
+    ].join("\n");
+
+    expect((await fsApplyPatch(rootReal, patch, { fuzzFactor: 0 })).applied).toBe(false);
+    const result = await fsApplyPatch(rootReal, patch, { fuzzFactor: 1 });
+    expect(result.applied).toBe(true);
+    const content = await fs.readFile(path.join(rootReal, "drift.txt"), "utf8");
+    expect(content.split("\n")[4]).toBe("GAMMA");
+  });
+
+  it("reports the failing hunk with its expected context and the closest region", async () => {
+    const root = await makeWorkspace();
+    const rootReal = await ensureWorkspaceRoot(root);
+    await fs.writeFile(path.join(rootReal, "e.txt"), "one\ntwo\nthree\nfour\nfive\n", "utf8");
+
+    const patch = [
+      "--- a/e.txt",
+      "+++ b/e.txt",
+      "@@ -1,2 +1,2 @@",
+      "-one",
+      "+ONE",
+      " two",
+      "@@ -3,3 +3,3 @@",
+      " three",
+      "-FOUR",
+      "+4",
+      " six"
+    ].join("\n");
+
+    const result = await fsApplyPatch(rootReal, patch, { fuzzFactor: 0 });
+    expect(result.applied).toBe(false);
+    expect(result.summary).toBe(
+      [
+        "Failed to apply patch to e.txt; no files were changed",
+        "Hunk 2 of 2 (@@ -3,3 +3,3 @@) did not match. Expected:",
+        "  three",
+        "  FOUR",
+        "  six",
+        "Closest match at lines 3-5 (1 of 3 lines match):",
+        "  three",
+        "  four",
+        "  five"
+      ].join("\n")
+    );
+    expect(await fs.readFile(path.join(rootReal, "e.txt"), "utf8")).toBe("one\ntwo\nthree\nfour\nfive\n");
+
+    const preview = await fsApplyPatch(rootReal, patch, { dryRun: true, fuzzFactor: 0 });
+    expect(preview.files?.[0].hunks?.[1]).toMatchObject({ applied: false, closest: { startLine: 3, matchingLines: 1 } });
+  });
 });
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import { createAgentSession } from "../src/agent/loop.js";
+import { loadSessionHistory } from "../src/agent/history.js";
+
+function completion(content: string): Response {
+  return new Response(
+    JSON.stringify({ id: "c", choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] }),
+    { status: 200 }
+  );
+}
+
+async function makeSession() {
+  const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "workshop-plan-"));
+  return createAgentSession({ autoApprove: false, maxSteps: 2, baseDir, routing: "keywords" });
+}
+
+async function readLog(logFilePath: string) {
+  const content = await fs.readFile(logFilePath, "utf8");
+  return content
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe("plan mode", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("proposes a plan without tools and leaves the conversation untouched", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => completion("1. List files\n2. Read notes.txt"));
+    vi.stubGlobal("fetch", fetchMock);
+    const session = await makeSession();
+
+    const plan = await session.proposePlan("tidy my notes");
+    expect(plan).toBe("1. List files\n2. Read notes.txt");
+    expect(session.getMessages()).toHaveLength(1);
+    const body = JSON.parse(String(fetchMock.mock.calls[0][1].body));
+    expect(body.tool_choice).toBe("none");
+  });
+
+  it("pins the approved plan and logs the decision", async () => {
+    const replies = ["1. Read notes.txt", "Done."];
+    vi.stubGlobal("fetch", vi.fn(async () => completion(replies.shift() ?? "")));
+    const session = await makeSession();
+
+    const plan = await session.proposePlan("tidy my notes");
+    await session.recordPlanDecision("edited", `${plan}\n2. Summarize`);
+    await session.runTurn("tidy my notes", { plan: `${plan}\n2. Summarize` });
+
+    const pinned = session.getMessages().find((message) => message.role === "system" && message.content?.includes("2. Summarize"));
+    expect(pinned).toBeDefined();
+    const entries = await readLog(session.logFilePath);
+    expect(entries.find((entry) => entry.type === "plan")).toMatchObject({ request: "tidy my notes", plan: "1. Read notes.txt" });
+    expect(entries.find((entry) => entry.type === "plan_decision")).toMatchObject({ decision: "edited" });
+
+    const replayed = await loadSessionHistory(session.logFilePath);
+    expect(replayed.map((message) => message.role)).toEqual(["system", "user", "system", "assistant"]);
+  });
+});
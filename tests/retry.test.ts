@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getEventListeners } from "node:events";
+import { OllamaClient } from "../src/llm/ollamaClient.js";
+import { parseRetryAfter, type RetryEvent } from "../src/llm/retry.js";
+
+const okBody = JSON.stringify({
+  id: "1",
+  choices: [{ index: 0, message: { role: "assistant", content: "hi" }, finish_reason: "stop" }]
+});
+
+function makeClient(onRetry?: (event: RetryEvent) => void) {
+  return new OllamaClient({
+    baseUrl: "http://localhost:11434/v1",
+    apiKey: "ollama",
+    model: "m",
+    maxRetries: 2,
+    retryBaseDelayMs: 1,
+    timeoutMs: 50,
+    firstTokenTimeoutMs: 50,
+    onRetry
+  });
+}
+
+describe("llm request retries", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries 503 responses and honours Retry-After", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 503, headers: { "Retry-After": "0" } }))
+      .mockResolvedValueOnce(new Response(okBody, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const events: RetryEvent[] = [];
+
+    const response = await makeClient((event) => events.push(event)).chat({ messages: [] });
+    expect(response.choices[0].message.content).toBe("hi");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(events).toEqual([{ attempt: 1, maxRetries: 2, delayMs: 0, reason: "LLM error 503: busy", status: 503 }]);
+  });
+
+  it("retries connection errors and gives up after maxRetries", async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(makeClient().chat({ messages: [] })).rejects.toThrow("LLM connection failed");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("bad", { status: 400 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(makeClient().chat({ messages: [] })).rejects.toThrow("LLM error 400: bad");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out slow requests and retries them", async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(makeClient().chat({ messages: [] })).rejects.toThrow("timed out");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops immediately when the caller aborts", async () => {
+    const fetchMock = vi.fn((_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")));
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+    const pending = makeClient().chat({ messages: [], signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("aborted");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("detaches from the caller's signal once requests and streams finish", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(okBody, { status: 200 })));
+    const controller = new AbortController();
+    const client = makeClient();
+    for (let index = 0; index < 3; index += 1) {
+      await client.chat({ messages: [], signal: controller.signal });
+    }
+    expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+
+    const encoder = new TextEncoder();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response(
+          new ReadableStream({
+            start(stream) {
+              stream.enqueue(encoder.encode('data: {"id":"1","choices":[]}\n'));
+            }
+          }),
+          { status: 200 }
+        )
+      )
+    );
+    const chunks: unknown[] = [];
+    const reading = (async () => {
+      for await (const chunk of client.chatStream({ messages: [], signal: controller.signal })) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+    })();
+    await expect(reading).rejects.toThrow("aborted");
+    expect(chunks).toHaveLength(1);
+    expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+  });
+
+  it("fails a stream that stops sending data after the first chunk", async () => {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        new Response(
+          new ReadableStream({
+            start(stream) {
+              stream.enqueue(encoder.encode('data: {"id":"1","choices":[]}\n'));
+            },
+            cancel() {
+              cancelled = true;
+            }
+          }),
+          { status: 200 }
+        )
+      )
+    );
+    const chunks: unknown[] = [];
+    const reading = (async () => {
+      for await (const chunk of makeClient().chatStream({ messages: [] })) {
+        chunks.push(chunk);
+      }
+    })();
+
+    await expect(reading).rejects.toThrow("LLM stream stalled");
+    expect(chunks).toHaveLength(1);
+    expect(cancelled).toBe(true);
+  });
+
+  it("parses Retry-After seconds and dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+  });
+});
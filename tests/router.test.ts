@@ -1,14 +1,33 @@
 import { describe, it, expect } from "vitest";
-import { routeAgent } from "../src/agent/router.js";
+import { routeAgent, routeRequest } from "../src/agent/router.js";
+import type { ChatClient } from "../src/llm/ollamaClient.js";
 
 const cases: Array<{ input: string; expected: string | null }> = [
   { input: "write me a email about the project", expected: "email_writer" },
   { input: "draft an email to the team", expected: "email_writer" },
   { input: "research the latest on solar panels", expected: "research" },
   { input: "deep dive on battery tech", expected: "research" },
+  { input: "refactor the parser into smaller functions", expected: "coder" },
+  { input: "fix the bug in the login form", expected: "coder" },
+  { input: "rename the helper in src/utils.ts", expected: "coder" },
+  { input: "write an email about the refactor", expected: "email_writer" },
   { input: "just say hello", expected: null }
 ];
 
+function classifier(reply: string | Error): Pick<ChatClient, "chat"> & { calls: number } {
+  const client = {
+    calls: 0,
+    async chat() {
+      client.calls += 1;
+      if (reply instanceof Error) {
+        throw reply;
+      }
+      return { id: "r", choices: [{ index: 0, message: { role: "assistant" as const, content: reply }, finish_reason: "stop" }] };
+    }
+  };
+  return client;
+}
+
 describe("agent router", () => {
   for (const testCase of cases) {
     it(`routes: ${testCase.input}`, () => {
@@ -16,4 +35,66 @@ describe("agent router", () => {
       expect(routed?.agent.id ?? null).toBe(testCase.expected);
     });
   }
-});
\ No newline at end of file
+});
+
+describe("model router", () => {
+  const misroutes: Array<{ input: string; keyword: string; reply: string }> = [
+    {
+      input: "reply to this bug report",
+      keyword: "email_writer",
+      reply: '{"agent": "none", "confidence": 0.9, "reason": "bug triage, not an email"}'
+    },
+    {
+      input: "I researched solid state batteries, now summarize what I found",
+      keyword: "research",
+      reply: '```json\n{"agent": "none", "confidence": 0.85, "reason": "summary of provided notes"}\n```'
+    }
+  ];
+
+  for (const testCase of misroutes) {
+    it(`does not route: ${testCase.input}`, async () => {
+      expect(routeAgent(testCase.input)?.agent.id).toBe(testCase.keyword);
+      const decision = await routeRequest(testCase.input, { client: classifier(testCase.reply) });
+      expect(decision?.agent).toBeNull();
+      expect(decision?.source).toBe("model");
+      expect(decision?.confidence).toBeGreaterThan(0.8);
+    });
+  }
+
+  it("routes to the classified agent with its confidence", async () => {
+    const decision = await routeRequest("draft an email to the team", {
+      client: classifier('{"agent": "email_writer", "confidence": 0.92, "reason": "asks for an email"}')
+    });
+    expect(decision).toMatchObject({ source: "model", confidence: 0.92 });
+    expect(decision?.agent?.id).toBe("email_writer");
+  });
+
+  it("drops low-confidence picks", async () => {
+    const decision = await routeRequest("research the latest on solar panels", {
+      client: classifier('{"agent": "research", "confidence": 0.3}'),
+      minConfidence: 0.6
+    });
+    expect(decision?.agent).toBeNull();
+  });
+
+  it("skips the classifier when no keyword rule matches", async () => {
+    const client = classifier('{"agent": "research", "confidence": 1}');
+    expect(await routeRequest("just say hello", { client })).toBeNull();
+    expect(client.calls).toBe(0);
+  });
+
+  it("falls back to keyword rules when the classifier fails", async () => {
+    const offline = await routeRequest("deep dive on battery tech", { client: classifier(new Error("fetch failed")) });
+    expect(offline?.agent?.id).toBe("research");
+    expect(offline?.source).toBe("fallback");
+
+    const garbled = await routeRequest("deep dive on battery tech", { client: classifier("sure, research it") });
+    expect(garbled?.source).toBe("fallback");
+
+    const keywordsOnly = await routeRequest("deep dive on battery tech", {
+      client: classifier('{"agent": "none", "confidence": 1}'),
+      mode: "keywords"
+    });
+    expect(keywordsOnly?.agent?.id).toBe("research");
+  });
+});
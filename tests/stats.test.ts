@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { ConversationStats } from "../src/util/stats.js";
+
+describe("conversation stats", () => {
+  it("replaces estimates with provider usage", () => {
+    const stats = new ConversationStats();
+    stats.addInput("a".repeat(40));
+    stats.startResponse();
+    stats.addOutputChunk("b".repeat(80));
+    stats.addUsage({ promptTokens: 300, completionTokens: 12, estimated: false });
+    stats.addUsage({ promptTokens: 350, completionTokens: 8, estimated: false });
+    stats.finishResponse();
+
+    const snapshot = stats.snapshot();
+    expect(snapshot.inputTokens).toBe(650);
+    expect(snapshot.outputTokens).toBe(20);
+    expect(snapshot.lastResponseTokens).toBe(20);
+    expect(snapshot.estimated).toBe(false);
+  });
+
+  it("falls back to estimates when usage is missing", () => {
+    const stats = new ConversationStats();
+    stats.addInput("a".repeat(40));
+    stats.startResponse();
+    stats.addOutputChunk("b".repeat(80));
+    stats.addUsage({ promptTokens: 999, completionTokens: 999, estimated: true });
+    stats.finishResponse();
+
+    const snapshot = stats.snapshot();
+    expect(snapshot.inputTokens).toBe(10);
+    expect(snapshot.outputTokens).toBe(20);
+    expect(snapshot.estimated).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { prepareToolArguments } from "../src/tools/validate.js";
+import { createToolRegistry } from "../src/tools/index.js";
+
+const { definitions } = createToolRegistry("workspace");
+const find = (name: string) => definitions.find((tool) => tool.function.name === name);
+
+describe("tool argument validation", () => {
+  it("passes valid arguments through untouched", () => {
+    const result = prepareToolArguments(find("web_fetch"), JSON.stringify({ url: "https://example.com" }));
+    expect(result.errors).toEqual([]);
+    expect(result.repaired).toBe(false);
+    expect(result.args).toEqual({ url: "https://example.com" });
+  });
+
+  it("repairs fences, trailing commas and string numbers", () => {
+    const raw = '```json\n{"query": "solar", "count": "5",}\n```';
+    const result = prepareToolArguments(find("web_search"), raw);
+    expect(result.errors).toEqual([]);
+    expect(result.repaired).toBe(true);
+    expect(result.args).toEqual({ query: "solar", count: 5 });
+  });
+
+  it("leaves commas inside string values alone when removing trailing commas", () => {
+    const raw = '{"path": "data.json", "content": "[1,]\\n{\\"a\\": 1, }",}';
+    const result = prepareToolArguments(find("fs_write"), raw);
+    expect(result.errors).toEqual([]);
+    expect(result.repairs).toContain("removed trailing commas");
+    expect(result.args).toEqual({ path: "data.json", content: '[1,]\n{"a": 1, }' });
+  });
+
+  it("drops unknown keys and trailing garbage", () => {
+    const raw = '{"path": "notes.txt", "encoding": "utf8"} and then some';
+    const result = prepareToolArguments(find("fs_read"), raw);
+    expect(result.errors).toEqual([]);
+    expect(result.args).toEqual({ path: "notes.txt" });
+    expect(result.repairs).toContain("dropped unknown key encoding");
+  });
+
+  it("reports structured errors when repair is not possible", () => {
+    const result = prepareToolArguments(find("web_search"), '{"count": 50}');
+    expect(result.errors).toContain("missing required query");
+    expect(result.errors).toContain("count must be <= 10");
+  });
+
+  it("rejects arguments that are not JSON objects", () => {
+    expect(prepareToolArguments(find("fs_read"), "not json").errors.length).toBe(1);
+    expect(prepareToolArguments(find("fs_read"), "[1, 2]").errors).toEqual(["Arguments must be a JSON object"]);
+  });
+});